@@ -0,0 +1,2 @@
+-- Migration number: 0002 	 2026-01-05T10:00:00.000Z
+ALTER TABLE chains ADD COLUMN ws_nodes TEXT; -- JSON array of WebSocket nodes for eth_subscribe
@@ -0,0 +1,2 @@
+-- Migration number: 0003 	 2026-01-12T10:00:00.000Z
+ALTER TABLE chains ADD COLUMN settings TEXT; -- JSON object of per-chain routing settings
@@ -0,0 +1,12 @@
+-- Migration number: 0004 	 2026-01-14T10:00:00.000Z
+CREATE TABLE api_keys (
+  id INTEGER PRIMARY KEY,
+  key_hash TEXT UNIQUE NOT NULL, -- SHA-256 hex of the key, the key itself is never stored
+  name TEXT, -- label for the key's owner
+  chains TEXT, -- JSON array of allowed chain slugs, NULL allows every chain
+  rate_limit INTEGER, -- compute units per rate_period, NULL for no limit
+  rate_period INTEGER DEFAULT 60, -- seconds
+  enabled INTEGER DEFAULT 1,
+  created_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch())
+);
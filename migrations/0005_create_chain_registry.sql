@@ -0,0 +1,29 @@
+-- Migration number: 0005 	 2026-01-16T10:00:00.000Z
+CREATE TABLE chain_registry (
+  id INTEGER PRIMARY KEY,
+  slug TEXT UNIQUE NOT NULL, -- e.g. 'eth', also the path chains are served on
+  chainId INTEGER NOT NULL,
+  name TEXT NOT NULL, -- display name
+  icon TEXT, -- icon URL, NULL falls back to the chainlist icon
+  aliases TEXT, -- JSON array of other paths the chain is served on, e.g. ["ethereum"]
+  family TEXT DEFAULT 'evm', -- method policy family: evm, opStack, arbitrum or polygon
+  enabled INTEGER DEFAULT 1, -- disabled chains are neither synced nor served
+  testnet INTEGER DEFAULT 0,
+  static_nodes TEXT, -- JSON array of upstreams validated along with those from chainlist
+  mev_nodes TEXT, -- JSON array of MEV protection upstreams
+  created_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch())
+);
+
+INSERT INTO chain_registry (slug, chainId, name, icon, aliases, family, enabled, testnet, mev_nodes) VALUES
+  ('eth', 1, 'Ethereum', 'https://s2.coinmarketcap.com/static/img/coins/128x128/1027.png', '["ethereum"]', 'evm', 1, 0, '["https://eth.merkle.io","https://rpc.mevblocker.io/fullprivacy"]'),
+  ('bsc', 56, 'Binance Smart Chain', 'https://cryptologos.cc/logos/bnb-bnb-logo.svg', '["bnb"]', 'evm', 1, 0, NULL),
+  ('polygon', 137, 'Polygon', 'https://icons.llamao.fi/icons/chains/rsz_polygon.jpg', '["matic"]', 'polygon', 1, 0, NULL),
+  ('arbitrum', 42161, 'Arbitrum One', 'https://s2.coinmarketcap.com/static/img/coins/128x128/11841.png', '["arb"]', 'arbitrum', 1, 0, NULL),
+  ('optimism', 10, 'Optimism', 'https://cryptologos.cc/logos/optimism-ethereum-op-logo.svg', '["op"]', 'opStack', 1, 0, NULL),
+  ('base', 8453, 'Base', 'https://avatars.githubusercontent.com/u/108554348?s=200&v=4', NULL, 'opStack', 1, 0, NULL),
+  ('unichain', 130, 'Unichain', 'https://icons.llamao.fi/icons/chains/rsz_unichain.jpg', NULL, 'opStack', 1, 0, NULL),
+  ('berachain', 80094, 'Berachain', 'https://icons.llamao.fi/icons/chains/rsz_berachain.jpg', NULL, 'evm', 1, 0, NULL),
+  ('plasma', 9745, 'Plasma', NULL, NULL, 'evm', 1, 0, NULL),
+  ('katana', 747474, 'Katana Network', NULL, NULL, 'evm', 1, 0, NULL),
+  ('sepolia', 11155111, 'Sepolia', NULL, NULL, 'evm', 0, 1, NULL);
@@ -0,0 +1,14 @@
+-- Migration number: 0006 	 2026-01-18T10:00:00.000Z
+CREATE TABLE node_overrides (
+  id INTEGER PRIMARY KEY,
+  chain TEXT NOT NULL, -- chain slug
+  url TEXT NOT NULL, -- upstream URL
+  banned INTEGER DEFAULT 0, -- never routed to, whatever the sync finds
+  pinned INTEGER DEFAULT 0, -- preferred over other nodes while healthy
+  manual INTEGER DEFAULT 0, -- served in addition to the synced nodes, without validation
+  created_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch()),
+  UNIQUE (chain, url)
+);
+
+CREATE INDEX idx_node_overrides_chain ON node_overrides(chain);
@@ -0,0 +1,10 @@
+-- Migration number: 0007 	 2026-01-20T10:00:00.000Z
+CREATE TABLE sync_progress (
+  chain TEXT PRIMARY KEY, -- chain slug
+  urls TEXT NOT NULL, -- JSON array, the URLs of the validation pass in progress
+  cursor INTEGER NOT NULL DEFAULT 0, -- index of the next URL to check
+  nodes TEXT NOT NULL DEFAULT '[]', -- JSON array, URLs found valid so far
+  archive_nodes TEXT NOT NULL DEFAULT '[]', -- JSON array, valid URLs that serve historical state
+  started_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch())
+);
@@ -0,0 +1,3 @@
+-- Migration number: 0008 	 2026-01-22T10:00:00.000Z
+ALTER TABLE chains ADD COLUMN node_capabilities TEXT; -- JSON object, probed capabilities by node URL
+ALTER TABLE sync_progress ADD COLUMN capabilities TEXT NOT NULL DEFAULT '{}'; -- JSON object, capabilities probed so far
@@ -0,0 +1,2 @@
+-- Migration number: 0009 	 2026-01-24T10:00:00.000Z
+ALTER TABLE chains ADD COLUMN node_privacy TEXT; -- JSON object, declared tracking and open source flag by node URL
@@ -0,0 +1,49 @@
+-- Migration number: 0010 	 2026-01-26T10:00:00.000Z
+CREATE TABLE nodes (
+  id INTEGER PRIMARY KEY,
+  chain TEXT NOT NULL, -- chain slug
+  url TEXT NOT NULL, -- upstream URL, never served publicly
+  archive INTEGER DEFAULT 0, -- served historical state at its last successful check
+  mev INTEGER DEFAULT 0, -- MEV-protected upstream from the chain registry
+  ws INTEGER DEFAULT 0, -- WebSocket endpoint
+  capabilities TEXT, -- JSON object, last probed capabilities
+  first_seen INTEGER DEFAULT (unixepoch()),
+  last_checked INTEGER,
+  last_ok INTEGER, -- last check the node passed
+  consecutive_failures INTEGER DEFAULT 0, -- checks failed since it last passed
+  latency_ms INTEGER, -- baseline latency at its last successful check
+  UNIQUE (chain, url)
+);
+
+CREATE INDEX idx_nodes_chain ON nodes(chain);
+
+CREATE TABLE node_checks (
+  id INTEGER PRIMARY KEY,
+  node_id INTEGER NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+  checked_at INTEGER DEFAULT (unixepoch()),
+  ok INTEGER NOT NULL,
+  archive INTEGER DEFAULT 0,
+  latency_ms INTEGER
+);
+
+CREATE INDEX idx_node_checks_node ON node_checks(node_id, checked_at);
+
+-- Nodes stored so far, as first seen now
+INSERT OR IGNORE INTO nodes (chain, url, last_ok)
+SELECT c.slug, j.value, c.updated_at FROM chains c, json_each(CASE WHEN json_valid(c.nodes) THEN c.nodes ELSE '[]' END) j;
+
+INSERT OR IGNORE INTO nodes (chain, url, ws, last_ok)
+SELECT c.slug, j.value, 1, c.updated_at FROM chains c, json_each(CASE WHEN json_valid(c.ws_nodes) THEN c.ws_nodes ELSE '[]' END) j;
+
+INSERT OR IGNORE INTO nodes (chain, url, mev)
+SELECT c.slug, j.value, 1 FROM chains c, json_each(CASE WHEN json_valid(c.mev_protection) THEN c.mev_protection ELSE '[]' END) j;
+
+UPDATE nodes SET archive = 1
+WHERE EXISTS (
+  SELECT 1 FROM chains c, json_each(CASE WHEN json_valid(c.archive_nodes) THEN c.archive_nodes ELSE '[]' END) j WHERE c.slug = nodes.chain AND j.value = nodes.url
+);
+
+UPDATE nodes SET capabilities = (
+  SELECT j.value FROM chains c, json_each(CASE WHEN json_valid(c.node_capabilities) THEN c.node_capabilities ELSE '{}' END) j
+  WHERE c.slug = nodes.chain AND j.key = nodes.url
+);
@@ -0,0 +1,2 @@
+-- Migration number: 0011 	 2026-01-28T10:00:00.000Z
+ALTER TABLE sync_progress ADD COLUMN refused TEXT; -- why the completed pass was refused, NULL while the pass is in progress
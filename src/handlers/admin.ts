@@ -0,0 +1,179 @@
+import {
+  type ChainSyncResult,
+  getChainRegistry,
+  NODE_ACTIONS,
+  type NodeAction,
+  setNodeOverride,
+  syncPublicNodes
+} from '@/services'
+import { createJsonResponse } from '@/utils'
+
+/**
+ * Admin API for operators, behind `Authorization: Bearer <ADMIN_SECRET>`.
+ * Without ADMIN_SECRET set, none of these routes exist.
+ *
+ * Routes (`:chain` is a registered slug):
+ * - GET  /admin/chains/:chain/nodes         -> Nodes with their role, health, head and overrides
+ * - POST /admin/chains/:chain/nodes/:action -> ban, unban, pin, unpin, add or remove a node, body `{"url": "..."}`
+ * - POST /admin/chains/:chain/maintenance   -> Take the chain out of (or back into) service, body `{"enabled": true}`
+ * - POST /admin/chains/:chain/sync          -> Validate a slice of the chain's nodes now, storing them if that completes
+ *                                              the pass. The cron runs finish larger chains. Body
+ *                                              `{"force": true}` stores a pass refused for removing too many nodes.
+ *
+ * Every change is pushed to the chain's ChainDO as soon as it is stored.
+ */
+export async function handleAdmin(request: Request, env: Env): Promise<Response> {
+  if (!env.ADMIN_SECRET) return adminError('Not found', 404)
+  if (!(await isAuthorized(request, env.ADMIN_SECRET))) return adminError('Unauthorized', 401)
+
+  const path = new URL(request.url).pathname
+  if (!path.startsWith('/admin/chains/')) return adminError('Not found', 404)
+
+  const [chain, resource, action, ...rest] = path.slice('/admin/chains/'.length).split('/')
+  if (!chain || rest.length > 0) return adminError('Not found', 404)
+
+  try {
+    const registry = await getChainRegistry(env)
+    if (!registry.some((entry) => entry.slug === chain)) return adminError(`Unknown chain: ${chain}`, 404)
+
+    if (resource === 'nodes' && action === undefined && request.method === 'GET') {
+      return getChainStub(env, chain).fetch(`https://null-rpc.internal/${chain}/nodes`)
+    }
+
+    if (request.method !== 'POST') return adminError('Not found', 404)
+
+    if (resource === 'nodes' && action !== undefined) {
+      return await handleNodeAction(request, env, chain, action)
+    }
+    if (resource === 'maintenance' && action === undefined) {
+      return await handleMaintenance(request, env, chain)
+    }
+    if (resource === 'sync' && action === undefined) {
+      return await handleSync(request, env, chain)
+    }
+
+    return adminError('Not found', 404)
+  } catch (e) {
+    console.error('Admin request failed', e)
+    return adminError('Internal error', 500)
+  }
+}
+
+async function handleNodeAction(request: Request, env: Env, chain: string, action: string): Promise<Response> {
+  if (!NODE_ACTIONS.includes(action as NodeAction)) {
+    return adminError(`Unknown action: ${action}. Expected one of ${NODE_ACTIONS.join(', ')}`, 400)
+  }
+
+  const body = await readJsonBody<{ url?: unknown }>(request)
+  const url = body?.url
+  if (typeof url !== 'string' || !isNodeUrl(url)) {
+    return adminError('Body must be {"url": "<http(s) or ws(s) URL>"}', 400)
+  }
+
+  await setNodeOverride(env.DB, chain, url, action as NodeAction)
+  const configured = await reloadChain(env, chain)
+
+  return createJsonResponse({ action, chain, configured, url })
+}
+
+async function handleMaintenance(request: Request, env: Env, chain: string): Promise<Response> {
+  const body = await readJsonBody<{ enabled?: unknown }>(request)
+  const enabled = body?.enabled
+  if (typeof enabled !== 'boolean') return adminError('Body must be {"enabled": true|false}', 400)
+
+  const result = await env.DB.prepare(
+    `UPDATE chains SET settings = json_set(COALESCE(settings, '{}'), '$.maintenance', json(?)) WHERE slug = ?`
+  )
+    .bind(String(enabled), chain)
+    .run()
+
+  // Chains the cron has not stored yet have no row to carry the setting
+  if (result.meta.changes === 0) return adminError(`Chain ${chain} has no nodes stored yet`, 409)
+
+  const configured = await reloadChain(env, chain)
+  return createJsonResponse({ chain, configured, maintenance: enabled })
+}
+
+/**
+ * Run the sync for the chain within the request: work handed to waitUntil would be cut off
+ * soon after the response, while a slice of checks fits in the request itself
+ */
+async function handleSync(request: Request, env: Env, chain: string): Promise<Response> {
+  // The body is optional, an empty one is a plain sync
+  const body = await readJsonBody<{ force?: unknown }>(request)
+  if (body?.force !== undefined && typeof body.force !== 'boolean') {
+    return adminError('Body must be empty or {"force": true|false}', 400)
+  }
+
+  const results = await syncPublicNodes(env, chain, body?.force === true)
+  const sync = results[chain] ?? 'failed'
+  const configured = await reloadChain(env, chain)
+
+  return createJsonResponse({ chain, configured, message: describeSync(sync), sync })
+}
+
+function describeSync(result: ChainSyncResult): string {
+  switch (result) {
+    case 'stored':
+      return 'Pass complete, nodes stored'
+    case 'pending':
+      return 'Checked one slice, the cron runs will finish the pass'
+    case 'refused':
+      return 'Pass would remove too many nodes, stored nodes kept. Sync with {"force": true} to store it'
+    default:
+      return 'Sync failed, stored nodes kept (see logs)'
+  }
+}
+
+/**
+ * Compare the bearer token with the secret in constant time. Both are hashed first,
+ * so the comparison does not leak the length of the secret either.
+ */
+async function isAuthorized(request: Request, secret: string): Promise<boolean> {
+  const header = request.headers.get('Authorization') ?? ''
+  if (!header.startsWith('Bearer ')) return false
+
+  const encoder = new TextEncoder()
+  const [token, expected] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(header.slice('Bearer '.length))),
+    crypto.subtle.digest('SHA-256', encoder.encode(secret))
+  ])
+
+  return crypto.subtle.timingSafeEqual(token, expected)
+}
+
+/**
+ * Have the chain's ChainDO reload its nodes and settings from D1.
+ * Returns whether the chain has nodes configured after the reload.
+ */
+async function reloadChain(env: Env, chain: string): Promise<boolean> {
+  const response = await getChainStub(env, chain).fetch(`https://null-rpc.internal/${chain}/reload`, {
+    method: 'POST'
+  })
+  const { configured } = await response.json<{ configured: boolean }>()
+  return configured
+}
+
+function getChainStub(env: Env, chain: string): DurableObjectStub {
+  return env.CHAIN_DO.get(env.CHAIN_DO.idFromName(chain))
+}
+
+async function readJsonBody<T>(request: Request): Promise<T | null> {
+  try {
+    return await request.json<T>()
+  } catch {
+    return null
+  }
+}
+
+function isNodeUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:', 'ws:', 'wss:'].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+function adminError(error: string, status: number): Response {
+  return createJsonResponse({ error }, status)
+}
@@ -31,7 +31,8 @@ const QUERIES = {
       AVG(double2) as avg_latency_ms,
       SUM(_sample_interval * double5) as cache_hits,
       SUM(_sample_interval * double6) as errors,
-      SUM(_sample_interval * double7) as rate_limited
+      SUM(_sample_interval * double7) as rate_limited,
+      SUM(_sample_interval * double8) as hedges
     FROM null_rpc_metrics
     WHERE timestamp > NOW() - INTERVAL '24' HOUR
     AND index1 = 'rpc_requests'
@@ -1,5 +1,5 @@
 // Chain page HTML template
-function generateChainPage(chain: string, chainName: string): string {
+function generateChainPage(chain: string, chainName: string, iconUrl: string | null): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -193,6 +193,25 @@ function generateChainPage(chain: string, chainName: string): string {
       width: 100% !important;
       height: 100% !important;
     }
+    .nodes-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-family: 'JetBrains Mono', monospace;
+      font-size: 14px;
+    }
+    .nodes-table th {
+      text-align: left;
+      color: var(--white);
+      font-weight: 500;
+      padding: 8px 12px;
+      border-bottom: 1px solid rgba(0, 212, 255, 0.2);
+    }
+    .nodes-table td {
+      padding: 8px 12px;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.05);
+    }
+    .lag-ok { color: var(--status-green); }
+    .lag-behind { color: #FF5C5C; }
     
     footer {
       padding: 48px 0;
@@ -286,6 +305,31 @@ function generateChainPage(chain: string, chainName: string): string {
         </div>
       </div>
     </section>
+
+    <section class="analytics-section">
+      <div class="container">
+        <h2 class="section-title">Chain Head</h2>
+
+        <div class="analytics-grid">
+          <div class="stat-card">
+            <div class="stat-value" id="headBlock">-</div>
+            <div class="stat-label">Head Block</div>
+          </div>
+          <div class="stat-card">
+            <div class="stat-value" id="syncedNodes">-</div>
+            <div class="stat-label">Nodes at Head</div>
+          </div>
+        </div>
+
+        <div class="chart-container">
+          <h3 class="chart-title">Node Lag</h3>
+          <table class="nodes-table">
+            <thead><tr><th>Node</th><th>Block</th><th>Lag</th></tr></thead>
+            <tbody id="nodesBody"></tbody>
+          </table>
+        </div>
+      </div>
+    </section>
   </main>
 
   <footer>
@@ -311,41 +355,17 @@ function generateChainPage(chain: string, chainName: string): string {
   <script>
     const CHAIN = '${chain}';
 
-    // Chain Configuration
-    const chainIcons = {
-      eth: 'https://s2.coinmarketcap.com/static/img/coins/128x128/1027.png',
-      bsc: 'https://cryptologos.cc/logos/bnb-bnb-logo.svg',
-      polygon: 'https://icons.llamao.fi/icons/chains/rsz_polygon.jpg',
-      arbitrum: 'https://s2.coinmarketcap.com/static/img/coins/128x128/11841.png',
-      optimism: 'https://cryptologos.cc/logos/optimism-ethereum-op-logo.svg',
-      base: 'https://avatars.githubusercontent.com/u/108554348?s=200&v=4',
-      unichain: 'https://icons.llamao.fi/icons/chains/rsz_unichain.jpg',
-      berachain: 'https://icons.llamao.fi/icons/chains/rsz_berachain.jpg',
-    };
-
-    const chainNames = {
-      eth: 'Ethereum',
-      bsc: 'Binance Smart Chain',
-      polygon: 'Polygon',
-      arbitrum: 'Arbitrum One',
-      optimism: 'Optimism',
-      base: 'Base',
-      unichain: 'Unichain',
-      berachain: 'Berachain',
-      plasma: 'Plasma',
-      katana: 'Katana Network',
-    };
-
-    const getDisplayName = (chain) => chainNames[chain] || chain;
+    // Chain Configuration, from the chain registry
+    const CHAIN_NAME = ${toScriptValue(chainName)};
+    const CHAIN_ICON = ${toScriptValue(iconUrl)};
     
     // Set chain icon
-    const iconUrl = chainIcons[CHAIN];
-    if (iconUrl) {
+    if (CHAIN_ICON) {
       const heroContainer = document.querySelector('.hero .container');
       const badge = heroContainer.querySelector('.chain-badge');
       const iconImg = document.createElement('img');
-      iconImg.src = iconUrl;
-      iconImg.alt = getDisplayName(CHAIN);
+      iconImg.src = CHAIN_ICON;
+      iconImg.alt = CHAIN_NAME;
       iconImg.style.width = '64px';
       iconImg.style.height = '64px';
       iconImg.style.borderRadius = '50%';
@@ -359,8 +379,8 @@ function generateChainPage(chain: string, chainName: string): string {
     }
     
     // Set proper display name
-    document.querySelector('h1').textContent = getDisplayName(CHAIN);
-    document.title = \`\${getDisplayName(CHAIN)} RPC - NullRPC\`;
+    document.querySelector('h1').textContent = CHAIN_NAME;
+    document.title = \`\${CHAIN_NAME} RPC - NullRPC\`;
     
     async function loadAnalytics() {
       try {
@@ -389,6 +409,33 @@ function generateChainPage(chain: string, chainName: string): string {
       }
     }
     
+    async function loadHead() {
+      try {
+        const res = await fetch(\`/chains/\${CHAIN}/head\`);
+        const data = await res.json();
+        if (!data.head) return;
+
+        document.getElementById('headBlock').textContent = data.head.toLocaleString();
+        const synced = data.nodes.filter(n => n.lag === 0).length;
+        document.getElementById('syncedNodes').textContent = \`\${synced}/\${data.nodes.length}\`;
+
+        const body = document.getElementById('nodesBody');
+        body.replaceChildren();
+        data.nodes.sort((a, b) => a.lag - b.lag).forEach(node => {
+          const row = document.createElement('tr');
+          [node.host, node.block.toLocaleString(), node.lag === 0 ? 'synced' : \`-\${node.lag}\`].forEach((text, i) => {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            if (i === 2) cell.className = node.lag === 0 ? 'lag-ok' : 'lag-behind';
+            row.appendChild(cell);
+          });
+          body.appendChild(row);
+        });
+      } catch (e) {
+        console.error('Failed to load chain head:', e);
+      }
+    }
+
     function formatNumber(num) {
       if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
       if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
@@ -438,22 +485,36 @@ function generateChainPage(chain: string, chainName: string): string {
     }
     
     loadAnalytics();
+    loadHead();
   </script>
 </body>
 </html>`
 }
 
+/**
+ * A value for the page script, with `<` escaped so it cannot close the script tag
+ */
+function toScriptValue(value: string | null): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c')
+}
+
 export async function handleChainPage(chain: string, env: Env): Promise<Response | null> {
-  // Look up chain in database
+  // Look up chain in database, name and icon from the chain registry
   try {
-    const result = await env.DB.prepare('SELECT slug, name FROM chains WHERE slug = ?').bind(chain).first()
+    const result = await env.DB.prepare(
+      `SELECT c.slug, COALESCE(r.name, c.name) AS name, r.icon
+       FROM chains c LEFT JOIN chain_registry r ON r.slug = c.slug
+       WHERE c.slug = ? AND COALESCE(r.enabled, 1) = 1`
+    )
+      .bind(chain)
+      .first()
 
     if (!result) {
       return null // Chain not found, let RPC handler deal with it
     }
 
     const chainName = (result.name as string) || chain
-    const html = generateChainPage(chain, chainName)
+    const html = generateChainPage(chain, chainName, (result.icon as string | null) ?? null)
 
     return new Response(html, {
       headers: {
@@ -1,5 +1,19 @@
+import { getNodeChecks, getNodeRecords, type NodePrivacy, type TrackingLevel } from '@/services'
 import { createRawJsonResponse } from '@/utils'
 
+// Validation history returned per node by the chain detail route
+const HISTORY_WINDOW_S = 24 * 60 * 60
+
+/**
+ * Privacy class of a standard node. Only the host is shown, paths may carry provider keys.
+ * Upstreams configured by operators have no declaration on chainlist, tracking is null for them.
+ */
+interface NodePrivacyStats {
+  host: string | null
+  tracking: TrackingLevel | null
+  openSource: boolean | null
+}
+
 interface ChainStats {
   slug: string
   name: string
@@ -8,23 +22,38 @@ interface ChainStats {
   nodes: number
   archiveNodes: number
   mevNodes: number
+  wsNodes: number
+  testnet: boolean
+  privacy: NodePrivacyStats[]
   updatedAt: number
 }
 
+/**
+ * Served chains: nodes come from the chains table, name, icon and flags from the chain registry.
+ * Chains disabled in the registry are left out.
+ */
 export async function handleChains(env: Env): Promise<Response> {
   try {
     const results = await env.DB.prepare(
-      `SELECT slug, name, icon, chainId, nodes, archive_nodes, mev_protection, updated_at FROM chains ORDER BY chainId`
+      `SELECT c.slug, COALESCE(r.name, c.name) AS name, c.icon, r.icon AS icon_url, c.chainId, c.nodes, c.archive_nodes,
+         c.mev_protection, c.ws_nodes, c.node_privacy, COALESCE(r.testnet, 0) AS testnet, c.updated_at
+       FROM chains c LEFT JOIN chain_registry r ON r.slug = c.slug
+       WHERE COALESCE(r.enabled, 1) = 1
+       ORDER BY c.chainId`
     ).all()
 
     const chains: ChainStats[] = results.results.map((row) => {
       const nodes = row.nodes ? JSON.parse(row.nodes as string) : []
       const archiveNodes = row.archive_nodes ? JSON.parse(row.archive_nodes as string) : []
       const mevNodes = row.mev_protection ? JSON.parse(row.mev_protection as string) : []
+      const wsNodes = row.ws_nodes ? JSON.parse(row.ws_nodes as string) : []
+      const nodePrivacy: Record<string, NodePrivacy> = row.node_privacy ? JSON.parse(row.node_privacy as string) : {}
 
-      // Construct icon URL from icon name (using llamao.fi CDN)
+      // Registry icon, else construct icon URL from the chainlist icon name (using llamao.fi CDN)
       const iconName = row.icon as string | null
-      const iconUrl = iconName ? `https://icons.llamao.fi/icons/chains/rsz_${iconName}.jpg` : null
+      const iconUrl =
+        (row.icon_url as string | null) ??
+        (iconName ? `https://icons.llamao.fi/icons/chains/rsz_${iconName}.jpg` : null)
 
       return {
         slug: row.slug as string,
@@ -34,6 +63,13 @@ export async function handleChains(env: Env): Promise<Response> {
         nodes: nodes.length,
         archiveNodes: archiveNodes.length,
         mevNodes: mevNodes.length,
+        wsNodes: wsNodes.length,
+        testnet: row.testnet === 1,
+        privacy: (nodes as string[]).map((url) => ({
+          host: getHost(url),
+          tracking: nodePrivacy[url]?.tracking ?? null,
+          openSource: nodePrivacy[url]?.openSource ?? null
+        })),
         updatedAt: row.updated_at as number
       }
     })
@@ -50,3 +86,102 @@ export async function handleChains(env: Env): Promise<Response> {
     return createRawJsonResponse(JSON.stringify({ error: 'Failed to fetch chain data' }), 500)
   }
 }
+
+/**
+ * Current head block and per-node lag, as tracked by the chain's Durable Object
+ */
+export async function handleChainHead(chain: string, env: Env): Promise<Response> {
+  const id = env.CHAIN_DO.idFromName(chain)
+  const stub = env.CHAIN_DO.get(id)
+
+  return stub.fetch(`https://null-rpc.internal/${chain}/head`)
+}
+
+/**
+ * Node counts, health and validation history for one chain, from the nodes and node_checks
+ * tables. Nodes are identified by id and host only, full URLs may carry provider keys.
+ */
+export async function handleChainDetail(chain: string, env: Env): Promise<Response> {
+  try {
+    const row = await env.DB.prepare(
+      `SELECT c.slug, COALESCE(r.name, c.name) AS name, c.chainId, c.nodes, c.archive_nodes, c.mev_protection,
+         c.ws_nodes, c.node_privacy, COALESCE(r.testnet, 0) AS testnet, c.updated_at
+       FROM chains c LEFT JOIN chain_registry r ON r.slug = c.slug
+       WHERE c.slug = ? AND COALESCE(r.enabled, 1) = 1`
+    )
+      .bind(chain)
+      .first()
+
+    if (!row) {
+      return createRawJsonResponse(JSON.stringify({ error: 'Chain not found' }), 404)
+    }
+
+    const served: Record<'standard' | 'archive' | 'mev' | 'ws', string[]> = {
+      standard: row.nodes ? JSON.parse(row.nodes as string) : [],
+      archive: row.archive_nodes ? JSON.parse(row.archive_nodes as string) : [],
+      mev: row.mev_protection ? JSON.parse(row.mev_protection as string) : [],
+      ws: row.ws_nodes ? JSON.parse(row.ws_nodes as string) : []
+    }
+    const nodePrivacy: Record<string, NodePrivacy> = row.node_privacy ? JSON.parse(row.node_privacy as string) : {}
+    const servedUrls = new Set(Object.values(served).flat())
+
+    const [records, checks] = await Promise.all([
+      getNodeRecords(env.DB, chain),
+      getNodeChecks(env.DB, chain, Math.floor(Date.now() / 1000) - HISTORY_WINDOW_S)
+    ])
+
+    const nodes = records.map((record) => {
+      const history = checks
+        .filter((check) => check.nodeId === record.id)
+        .map(({ checkedAt, ok, latencyMs }) => ({ checkedAt, ok, latencyMs }))
+
+      return {
+        id: record.id,
+        host: getHost(record.url),
+        served: servedUrls.has(record.url),
+        archive: record.archive,
+        mev: record.mev,
+        ws: record.ws,
+        tracking: nodePrivacy[record.url]?.tracking ?? null,
+        capabilities: record.capabilities,
+        firstSeen: record.firstSeen,
+        lastChecked: record.lastChecked,
+        lastOk: record.lastOk,
+        consecutiveFailures: record.consecutiveFailures,
+        latencyMs: record.latencyMs,
+        uptime: history.length > 0 ? history.filter((check) => check.ok).length / history.length : null,
+        history
+      }
+    })
+
+    return createRawJsonResponse(
+      JSON.stringify({
+        slug: row.slug as string,
+        name: (row.name as string) || (row.slug as string),
+        chainId: row.chainId as number,
+        testnet: row.testnet === 1,
+        updatedAt: row.updated_at as number,
+        counts: {
+          nodes: served.standard.length,
+          archiveNodes: served.archive.length,
+          mevNodes: served.mev.length,
+          wsNodes: served.ws.length,
+          known: records.length,
+          failing: records.filter((record) => record.consecutiveFailures > 0).length
+        },
+        nodes
+      })
+    )
+  } catch (e) {
+    console.error('Failed to load chain detail', e)
+    return createRawJsonResponse(JSON.stringify({ error: 'Failed to fetch chain data' }), 500)
+  }
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).host
+  } catch {
+    return null
+  }
+}
@@ -1,6 +1,8 @@
+export { handleAdmin } from './admin'
 export { handleAnalytics } from './analytics'
 export { handleChainPage } from './chain-page'
-export { handleChains } from './chains'
+export { handleChainDetail, handleChainHead, handleChains } from './chains'
 export { handleRoot } from './root'
 export { handleRequest } from './rpc'
 export { handleStaticAsset } from './static'
+export { handleWebSocket } from './websocket'
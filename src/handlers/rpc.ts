@@ -1,6 +1,68 @@
-import { cacheResponse, calculateCacheKey, getCachedResponse, getCacheTtl } from '@/services'
-import type { AnalyticsData } from '@/types'
-import { getContentLength, trackRequest } from '@/utils'
+import {
+  cacheResponse,
+  chargeBudget,
+  calculateCacheKey,
+  checkBatchLimits,
+  checkLogsLimits,
+  FINALIZED_HEADER,
+  getCachedResponse,
+  getCacheTtl,
+  getBodyLimitHit,
+  getFinalityTtl,
+  getMethodCost,
+  getPersistentCache,
+  getRequestLimits,
+  isImmutableResult,
+  LIMIT_HEADER,
+  type LimitHit,
+  type LimitResult,
+  mayBeImmutable,
+  type PersistentCache,
+  persistResponse,
+  type RateBudget,
+  type RequestLimits,
+  readBodyWithin,
+  recordBlockTags,
+  resolveBlockTags,
+  withRateLimitHeaders
+} from '@/services'
+import type { AnalyticsData, JsonRpcRequest, JsonRpcResponse } from '@/types'
+import {
+  createJsonResponse,
+  createRawJsonResponse,
+  classifyRpcError,
+  createRpcError,
+  createRpcErrorResponse,
+  ERROR_CLASS_HEADER,
+  getContentLength,
+  isJsonRpcRequest,
+  QUORUM_HEADER,
+  RpcErrorCode,
+  trackRequest
+} from '@/utils'
+
+/**
+ * One item of a batch as it moves through cache lookup and upstream dispatch
+ */
+interface BatchEntry {
+  index: number
+  request: JsonRpcRequest
+  ttl: number
+  cacheKeyUrl: string | null
+  cacheStatus: AnalyticsData['cacheStatus']
+}
+
+// What analytics record about a request turned away by a limit
+type LimitHitData = Pick<AnalyticsData, 'apiKeyId' | 'chain' | 'latencyMs' | 'method' | 'requestSize'>
+
+/**
+ * Who a request comes from: the compute unit budget it is charged to (null when unmetered),
+ * and the API key it used, if any
+ */
+export interface RequestClient {
+  budget: RateBudget | null
+  apiKeyId?: number
+}
 
 // Global round-robin is now handled by DO or per-request within DO
 
@@ -8,20 +70,32 @@ export async function handleRequest(
   chain: string,
   request: Request,
   env: Env,
-  ctx?: ExecutionContext
+  ctx?: ExecutionContext,
+  client: RequestClient = { budget: null }
 ): Promise<Response> {
   const startTime = performance.now()
+  const { apiKeyId } = client
 
   // Analytics data we'll populate as we go
   let method = 'unknown'
+  let params: unknown[] = []
   let isValidRpc = false
   let cacheStatus: AnalyticsData['cacheStatus'] = 'NONE'
   let requestSize = 0
 
   // Try caching only if we have a context (sanity check)
-  let cachedResponse: Response | null = null
+  // Cached reply, with the caller's id written back
+  let cachedBody: string | null = null
   let cacheKeyUrl: string | null = null
   let ttl = 0
+  let batch: unknown[] | null = null
+  // Rewritten body, when block tags were resolved
+  let forwardBody: string | null = null
+
+  // Quorum answers must come from several nodes, a cached single-node answer won't do
+  const quorum = request.headers.has(QUORUM_HEADER)
+  const tier = getPersistentCache(env)
+  const limits = await getRequestLimits(env, chain)
 
   // Clone request to read body
   // We need multiple clones for retries
@@ -30,42 +104,58 @@ export async function handleRequest(
   try {
     if (request.method === 'POST') {
       try {
-        const bodyText = await requestBodyClone.text()
+        // Oversized bodies are turned away before they are buffered
+        const bodyText = await readBodyWithin(requestBodyClone, limits.maxBodyBytes)
+        if (bodyText === null) {
+          return rejectOverLimit(null, getBodyLimitHit(limits), 413, env, ctx, {
+            apiKeyId,
+            chain,
+            latencyMs: performance.now() - startTime,
+            method
+          })
+        }
         requestSize = bodyText.length
 
         const parsed = JSON.parse(bodyText)
 
         // Validate JSON-RPC 2.0
-        // Handle Batch
+        // Handle Batch: every item is validated, cached and routed on its own
         if (Array.isArray(parsed)) {
-          if (
-            parsed.length > 0 &&
-            parsed.every(
-              (p: unknown) =>
-                typeof p === 'object' &&
-                p !== null &&
-                'jsonrpc' in p &&
-                (p as { jsonrpc: unknown }).jsonrpc === '2.0' &&
-                'method' in p &&
-                typeof (p as { method: unknown }).method === 'string'
-            )
-          ) {
-            isValidRpc = true
-            method = 'batch'
-          }
+          batch = parsed
         }
         // Handle Single
-        else if (parsed?.jsonrpc === '2.0' && typeof parsed?.method === 'string') {
+        else if (isJsonRpcRequest(parsed)) {
           isValidRpc = true
           method = parsed.method
 
-          const requestBody = parsed as { method: string; params: unknown[] }
-          ttl = getCacheTtl(requestBody.method, requestBody.params)
+          params = Array.isArray(parsed.params) ? parsed.params : []
+
+          // latest/safe/finalized become block numbers, so the key and the upstream call are exact
+          const resolved = resolveBlockTags(chain, method, params)
+          if (resolved) {
+            params = resolved
+            forwardBody = JSON.stringify({ ...parsed, params })
+          }
+
+          const limitHit = checkLogsLimits(method, params, limits)
+          if (limitHit) {
+            return rejectOverLimit(parsed.id, limitHit, 200, env, ctx, {
+              apiKeyId,
+              chain,
+              latencyMs: performance.now() - startTime,
+              method,
+              requestSize
+            })
+          }
+
+          ttl = quorum ? 0 : getCacheTtl(method, params)
 
           if (ttl > 0 && ctx) {
-            cacheKeyUrl = await calculateCacheKey(chain, requestBody)
-            cachedResponse = await getCachedResponse(cacheKeyUrl)
-            cacheStatus = cachedResponse ? 'HIT' : 'MISS'
+            cacheKeyUrl = await calculateCacheKey(chain, { method, params })
+            // Only requests that can have an immutable reply are worth a persistent tier lookup
+            const cached = await getCachedResponse(cacheKeyUrl, mayBeImmutable(method, params) ? tier : null, ctx)
+            cachedBody = cached ? await readCachedReply(cached, parsed.id) : null
+            cacheStatus = cachedBody !== null ? 'HIT' : 'MISS'
           } else {
             cacheStatus = 'BYPASS'
           }
@@ -78,19 +168,24 @@ export async function handleRequest(
     // Cloning error or something, ignore caching
   }
 
-  if (cachedResponse) {
-    const response = new Response(cachedResponse.body, cachedResponse)
+  if (batch) {
+    return handleBatchRequest(chain, batch, request, env, startTime, quorum, tier, limits, ctx, client)
+  }
+
+  if (cachedBody !== null) {
+    const response = createRawJsonResponse(cachedBody)
     response.headers.set('X-NullRPC-Cache', 'HIT')
 
     // Track cached response
     if (ctx && isValidRpc) {
       trackRequest(env, ctx, {
+        apiKeyId,
         cacheStatus: 'HIT',
         chain,
         latencyMs: performance.now() - startTime,
         method,
         requestSize,
-        responseSize: getContentLength(response.headers),
+        responseSize: cachedBody.length,
         statusCode: response.status
       })
     }
@@ -98,22 +193,56 @@ export async function handleRequest(
     return response
   }
 
+  // Cache hits are free, anything going upstream is charged to the client's budget
+  let budget: LimitResult | null = null
+  if (client.budget) {
+    budget = await chargeBudget(env, client.budget, getMethodCost(method, params))
+    if (!budget.allowed) {
+      if (ctx && isValidRpc) {
+        trackRequest(env, ctx, {
+          apiKeyId,
+          cacheStatus,
+          chain,
+          errorType: 'rate_limited',
+          latencyMs: performance.now() - startTime,
+          method,
+          requestSize,
+          statusCode: 429
+        })
+      }
+      return rejectOverBudget(request, budget)
+    }
+  }
+
   const id = env.CHAIN_DO.idFromName(chain)
   const stub = env.CHAIN_DO.get(id)
 
-  const response = await stub.fetch(request.clone())
+  const response = await stub.fetch(
+    forwardBody
+      ? new Request(request.url, { body: forwardBody, headers: request.headers, method: 'POST' })
+      : request.clone()
+  )
+  recordBlockTags(chain, response.headers)
 
   // Get response size for analytics
   const responseSize = getContentLength(response.headers)
+  const hedges = Number(response.headers.get('X-NullRPC-Hedged') || 0)
 
   // Track the request
   if (ctx && isValidRpc) {
     const successful = response.ok
 
     trackRequest(env, ctx, {
+      apiKeyId,
       cacheStatus: cacheStatus === 'HIT' ? 'HIT' : ttl > 0 ? 'MISS' : 'BYPASS',
       chain,
-      errorType: successful ? undefined : `upstream_${response.status}`,
+      // Limits ChainDO enforced by itself are reported as such, upstream JSON-RPC errors by class,
+      // other failures by status
+      errorType:
+        response.headers.get(LIMIT_HEADER) ??
+        response.headers.get(ERROR_CLASS_HEADER) ??
+        (successful ? undefined : `upstream_${response.status}`),
+      hedges,
       latencyMs: performance.now() - startTime,
       method,
       requestSize,
@@ -124,10 +253,295 @@ export async function handleRequest(
 
   // Save to cache if applicable
   if (ctx && cacheKeyUrl && ttl > 0 && response.ok) {
-    // Warning: Respone body might be consumed?
-    // DO fetch returns a new Response, but we should double check if cloning is needed for caching
-    ctx.waitUntil(cacheResponse(cacheKeyUrl, response.clone(), ttl, ctx))
+    ctx.waitUntil(cacheReply(cacheKeyUrl, response.clone(), method, params, ttl, tier, ctx))
+  }
+
+  return budget ? withRateLimitHeaders(response, budget) : response
+}
+
+/**
+ * Reply to a request over its budget: a JSON-RPC limit error for each call, with the
+ * budget left in X-RateLimit-* headers and a Retry-After
+ */
+async function rejectOverBudget(request: Request, budget: LimitResult): Promise<Response> {
+  const response = await createRpcErrorResponse(request, RpcErrorCode.limitExceeded, 'Rate limit exceeded', {
+    retryAfter: budget.retryAfter,
+    status: 429
+  })
+  return withRateLimitHeaders(response, budget)
+}
+
+/**
+ * Reply to a request over one of the chain's request limits, and count the hit in analytics
+ */
+function rejectOverLimit(
+  id: unknown,
+  hit: LimitHit,
+  status: number,
+  env: Env,
+  ctx: ExecutionContext | undefined,
+  data: LimitHitData
+): Response {
+  trackLimitHit(env, ctx, hit, status, data)
+  return createJsonResponse(createLimitError(id, hit), status)
+}
+
+/**
+ * JSON-RPC limit error for a request over one of the chain's request limits
+ */
+function createLimitError(id: unknown, hit: LimitHit): JsonRpcResponse {
+  return createRpcError(id ?? null, RpcErrorCode.limitExceeded, hit.message, { limit: hit.limit })
+}
+
+/**
+ * Count a limit hit in analytics, with the limit as its error type
+ */
+function trackLimitHit(
+  env: Env,
+  ctx: ExecutionContext | undefined,
+  hit: LimitHit,
+  statusCode: number,
+  data: LimitHitData
+): void {
+  if (ctx) trackRequest(env, ctx, { ...data, cacheStatus: 'NONE', errorType: hit.violation, statusCode })
+}
+
+/**
+ * Highest finalized block reported by ChainDO, or null if it does not know yet
+ */
+function getFinalizedBlock(headers: Headers): number | null {
+  const value = headers.get(FINALIZED_HEADER)
+  return value ? Number.parseInt(value, 10) : null
+}
+
+/**
+ * Cached bodies carry the id of whoever populated them, write back the caller's id.
+ * Returns null for an unreadable entry, which is then treated as a miss.
+ */
+async function readCachedReply(cached: Response, id: unknown): Promise<string | null> {
+  try {
+    const body = (await cached.json()) as JsonRpcResponse
+    return JSON.stringify({ ...body, id: id ?? null })
+  } catch (_) {
+    return null
+  }
+}
+
+/**
+ * Cache a single reply with its TTL capped by finality. JSON-RPC errors are never cached.
+ * Immutable replies also go to the persistent tier.
+ */
+async function cacheReply(
+  cacheKeyUrl: string,
+  response: Response,
+  method: string,
+  params: unknown[],
+  ttl: number,
+  tier: PersistentCache | null,
+  ctx: ExecutionContext
+): Promise<void> {
+  const body = await response.text()
+
+  let reply: JsonRpcResponse
+  try {
+    reply = JSON.parse(body)
+  } catch (_) {
+    return
+  }
+  if (reply.error || reply.result === undefined) return
+
+  const finalizedBlock = getFinalizedBlock(response.headers)
+  const finalTtl = getFinalityTtl(ttl, method, params, reply.result, finalizedBlock)
+  if (finalTtl <= 0) return
+  await cacheResponse(cacheKeyUrl, createRawJsonResponse(body), finalTtl, ctx)
+
+  if (tier && isImmutableResult(method, params, reply.result, finalizedBlock)) {
+    await persistResponse(cacheKeyUrl, body, tier)
+  }
+}
+
+/**
+ * Serve a JSON-RPC batch item by item.
+ *
+ * Invalid items get an error in their slot, cacheable items are answered from the edge cache
+ * (or the persistent tier), and only the misses are sent to ChainDO, which routes them per item and keeps their order.
+ * The reply is reassembled in the original order with the original ids.
+ */
+async function handleBatchRequest(
+  chain: string,
+  items: unknown[],
+  request: Request,
+  env: Env,
+  startTime: number,
+  quorum: boolean,
+  tier: PersistentCache | null,
+  limits: RequestLimits,
+  ctx: ExecutionContext | undefined,
+  client: RequestClient
+): Promise<Response> {
+  const { apiKeyId } = client
+
+  if (items.length === 0) {
+    return createJsonResponse(createRpcError(null, RpcErrorCode.invalidRequest, 'Invalid request: empty batch'))
+  }
+
+  const batchHit = checkBatchLimits(items.length, limits)
+  if (batchHit) {
+    return rejectOverLimit(null, batchHit, 413, env, ctx, {
+      apiKeyId,
+      chain,
+      latencyMs: performance.now() - startTime,
+      method: 'batch'
+    })
+  }
+
+  const replies: JsonRpcResponse[] = new Array(items.length)
+  const entries: BatchEntry[] = []
+
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index]
+
+    if (!isJsonRpcRequest(item)) {
+      replies[index] = createRpcError(
+        (item as { id?: unknown } | null)?.id,
+        RpcErrorCode.invalidRequest,
+        'Invalid request'
+      )
+      continue
+    }
+
+    const itemParams = Array.isArray(item.params) ? item.params : []
+    // Block tags are resolved per item, as for single requests
+    const params = resolveBlockTags(chain, item.method, itemParams) ?? itemParams
+
+    const limitHit = checkLogsLimits(item.method, params, limits)
+    if (limitHit) {
+      trackLimitHit(env, ctx, limitHit, 200, {
+        apiKeyId,
+        chain,
+        latencyMs: performance.now() - startTime,
+        method: item.method
+      })
+      replies[index] = createLimitError(item.id, limitHit)
+      continue
+    }
+
+    const ttl = quorum ? 0 : getCacheTtl(item.method, params)
+
+    entries.push({
+      cacheKeyUrl: ttl > 0 && ctx ? await calculateCacheKey(chain, { method: item.method, params }) : null,
+      cacheStatus: ttl > 0 ? 'MISS' : 'BYPASS',
+      index,
+      request: { id: item.id, jsonrpc: '2.0', method: item.method, params },
+      ttl
+    })
+  }
+
+  // 1. Edge cache lookups (then persistent tier), in parallel
+  await Promise.all(
+    entries.map(async (entry) => {
+      if (!entry.cacheKeyUrl) return
+
+      const { method, params = [] } = entry.request
+      const cached = await getCachedResponse(entry.cacheKeyUrl, mayBeImmutable(method, params) ? tier : null, ctx)
+      if (!cached) return
+
+      try {
+        // Cached bodies carry the id of whoever populated them, write back the caller's id
+        const body = (await cached.json()) as JsonRpcResponse
+        replies[entry.index] = { ...body, id: entry.request.id ?? null }
+        entry.cacheStatus = 'HIT'
+      } catch (_) {
+        // Unreadable cache entry, treat as a miss
+      }
+    })
+  )
+
+  // 2. Misses go to ChainDO as one batch, it answers in the same order
+  const misses = entries.filter((entry) => entry.cacheStatus !== 'HIT')
+  let statusCode = 200
+  let hedges = 0
+
+  // The batch is charged the sum of its misses, cache hits are free
+  let budget: LimitResult | null = null
+  if (client.budget && misses.length > 0) {
+    const cost = misses.reduce((sum, entry) => sum + getMethodCost(entry.request.method, entry.request.params ?? []), 0)
+    budget = await chargeBudget(env, client.budget, cost)
+    if (!budget.allowed) return rejectOverBudget(request, budget)
+  }
+
+  if (misses.length > 0) {
+    const id = env.CHAIN_DO.idFromName(chain)
+    const stub = env.CHAIN_DO.get(id)
+
+    const response = await stub.fetch(
+      new Request(request.url, {
+        body: JSON.stringify(misses.map((entry) => entry.request)),
+        headers: request.headers,
+        method: 'POST'
+      })
+    )
+    recordBlockTags(chain, response.headers)
+    statusCode = response.status
+    hedges = Number(response.headers.get('X-NullRPC-Hedged') || 0)
+    const finalizedBlock = getFinalizedBlock(response.headers)
+
+    let upstreamReplies: JsonRpcResponse[] = []
+    try {
+      const body = await response.json()
+      if (Array.isArray(body)) upstreamReplies = body
+    } catch (_) {
+      // Malformed reply, every miss gets an error below
+    }
+
+    misses.forEach((entry, position) => {
+      const reply = upstreamReplies[position]
+      replies[entry.index] =
+        reply ?? createRpcError(entry.request.id, RpcErrorCode.internalError, 'No response from upstream')
+
+      // 3. Cache successful items under their own keys, TTL capped by finality
+      if (ctx && reply && entry.cacheKeyUrl && reply.result !== undefined && !reply.error) {
+        const { method, params = [] } = entry.request
+        const ttl = getFinalityTtl(entry.ttl, method, params, reply.result, finalizedBlock)
+        if (ttl <= 0) return
+        ctx.waitUntil(cacheResponse(entry.cacheKeyUrl, createJsonResponse(reply), ttl, ctx))
+
+        if (tier && isImmutableResult(method, params, reply.result, finalizedBlock)) {
+          ctx.waitUntil(persistResponse(entry.cacheKeyUrl, JSON.stringify(reply), tier))
+        }
+      }
+    })
+  }
+
+  const response = createJsonResponse(replies)
+  if (misses.length === 0) {
+    response.headers.set('X-NullRPC-Cache', 'HIT')
+  } else if (misses.length < entries.length) {
+    response.headers.set('X-NullRPC-Cache', 'PARTIAL')
+  }
+
+  // Analytics: one data point per method in the batch
+  if (ctx) {
+    const latencyMs = performance.now() - startTime
+
+    for (const entry of entries) {
+      const reply = replies[entry.index]
+
+      trackRequest(env, ctx, {
+        apiKeyId,
+        cacheStatus: entry.cacheStatus,
+        chain,
+        errorType: reply?.error ? classifyRpcError(reply.error) : undefined,
+        // Hedges belong to the upstream call, not to each item: count them once
+        hedges: entry === misses[0] ? hedges : 0,
+        latencyMs,
+        method: entry.request.method,
+        requestSize: JSON.stringify(entry.request).length,
+        responseSize: reply ? JSON.stringify(reply).length : 0,
+        statusCode: entry.cacheStatus === 'HIT' ? 200 : statusCode
+      })
+    }
   }
 
-  return response
+  return budget ? withRateLimitHeaders(response, budget) : response
 }
@@ -0,0 +1,19 @@
+import { BUDGET_HEADER, type RateBudget } from '@/services'
+
+/**
+ * Hand a WebSocket upgrade to the chain's Durable Object.
+ *
+ * The upgrade is rebuilt from scratch so that nothing but the Upgrade header and the budget
+ * that messages are charged to reaches ChainDO, which shares one upstream subscription per
+ * topic between all clients.
+ */
+export async function handleWebSocket(chain: string, env: Env, budget: RateBudget | null): Promise<Response> {
+  const id = env.CHAIN_DO.idFromName(chain)
+  const stub = env.CHAIN_DO.get(id)
+
+  // biome-ignore lint/style/useNamingConvention: HTTP header
+  const headers = new Headers({ Upgrade: 'websocket' })
+  if (budget) headers.set(BUDGET_HEADER, JSON.stringify(budget))
+
+  return stub.fetch(`https://null-rpc.internal/${chain}`, { headers })
+}
@@ -1,7 +1,34 @@
-import { handleAnalytics, handleChainPage, handleChains, handleRequest, handleRoot } from '@/handlers'
-import { syncPublicNodes } from '@/services'
+import {
+  handleAdmin,
+  handleAnalytics,
+  handleChainDetail,
+  handleChainHead,
+  handleChainPage,
+  handleChains,
+  handleRequest,
+  handleRoot,
+  handleWebSocket
+} from '@/handlers'
+import {
+  chargeBudget,
+  getApiKey,
+  getClientKey,
+  isChainAllowed,
+  type RateBudget,
+  resolveChainSlug,
+  syncPublicNodes
+} from '@/services'
+import { createRpcErrorResponse, QUORUM_HEADER, RpcErrorCode } from '@/utils'
 
 export { ChainDO } from './objects/chain'
+export { LimiterDO } from './objects/limiter'
+
+// Window of the RATE_LIMITER binding (see wrangler.jsonc), sent as Retry-After
+const RATE_LIMIT_PERIOD = 10
+
+// Compute unit budget per public client, over a sliding window in seconds
+const PUBLIC_BUDGET_LIMIT = 5000
+const PUBLIC_BUDGET_PERIOD = 10
 
 /**
  * High-performance Cloudflare Worker entry point.
@@ -14,8 +41,17 @@ export { ChainDO } from './objects/chain'
  *
  * Routes supported:
  * - `/`                  -> Base health check (root handler)
+ * - `/chains/:slug`      -> Node counts, health and validation history, without upstream URLs
+ * - `/chains/:slug/head` -> Chain head and per-node lag
+ * - `/admin/...`         -> Admin API for operators, behind ADMIN_SECRET (see handlers/admin.ts)
  * - `/:chain`            -> Public chain access (e.g. /eth, /bsc)
- * - `/:chain/:token`     -> Authenticated access (e.g. /eth/123-abc)
+ *                           WebSocket upgrades on this route serve eth_subscribe
+ * - `/:chain/quorum`     -> Quorum reads, answered only when several nodes agree
+ * - `/:chain/:token`     -> Authenticated access (e.g. /eth/123-abc), with the key's own limits
+ *                           instead of the shared per-IP limit. `quorum` is not a valid token.
+ *
+ * `:chain` is a slug or one of its aliases from the chain registry (e.g. /ethereum for /eth).
+ * Aliases are rewritten to the slug here, nothing behind the router sees them.
  */
 
 /**
@@ -26,12 +62,13 @@ export { ChainDO } from './objects/chain'
  * Whitelisted Headers:
  * - content-type: Required for JSON-RPC parsing
  * - accept: Required for content negotiation
+ * - x-nullrpc-quorum: Opt-in quorum mode, carries no client data
  */
 function stripPrivacyHeaders(request: Request): Request {
   const headers = new Headers()
 
   // Whitelist only essential headers
-  const whitelist = ['content-type', 'accept']
+  const whitelist = ['content-type', 'accept', QUORUM_HEADER]
   for (const key of whitelist) {
     const value = request.headers.get(key)
     if (value) headers.set(key, value)
@@ -57,7 +94,8 @@ export default {
     // -------------------------------------------------------------------------
     // 0. Strip privacy headers IMMEDIATELY before any processing
     // -------------------------------------------------------------------------
-    // We need the IP for rate limiting before stripping
+    // We need the IP for rate limiting before stripping. It is only ever used to derive
+    // an anonymous, daily rotating limiter key (see getClientKey), never stored or forwarded.
     const clientIp = request.headers.get('cf-connecting-ip') || 'unknown'
 
     // Strip all user-identifying headers from the request
@@ -91,6 +129,20 @@ export default {
       return handleChains(env)
     }
 
+    // Per-chain node detail (/chains/:slug) and head status for the dashboard (/chains/:slug/head)
+    if (path.startsWith('/chains/')) {
+      const [slug, view] = path.slice('/chains/'.length).split('/')
+      if (slug && view === undefined) return handleChainDetail(await resolveChainSlug(env, slug), env)
+      if (slug && view === 'head') return handleChainHead(await resolveChainSlug(env, slug), env)
+      return notFound()
+    }
+
+    // Admin API: reads the Authorization header, so it gets the request before stripping.
+    // Nothing from it is forwarded upstream.
+    if (path.startsWith('/admin/')) {
+      return handleAdmin(request, env)
+    }
+
     // -------------------------------------------------------------------------
     // 3. Analytics endpoint
     // -------------------------------------------------------------------------
@@ -111,29 +163,40 @@ export default {
     // CASE: "/:chain"
     // No second slash found, so the rest of the string is the chain identifier.
     if (nextSlash === -1) {
-      const chain = path.slice(start)
-      if (!chain) return handleRoot() // Handle "/" strictly if missed fast path
+      const segment = path.slice(start)
+      if (!segment) return handleRoot() // Handle "/" strictly if missed fast path
+
+      const chain = await resolveChainSlug(env, segment)
+      const chainRequest = chain === segment ? cleanRequest : withChainPath(cleanRequest, segment, chain)
+
+      // WebSocket upgrades are subscriptions, handled before the GET page route
+      if (isWebSocketUpgrade(request)) {
+        return checkRateLimitAndHandleWebSocket(chain, clientIp, env)
+      }
 
       // GET requests serve the chain analytics page
       if (request.method === 'GET') {
         const chainPage = await handleChainPage(chain, env)
         if (chainPage) return chainPage
         // If chain not found, return 404
-        return new Response('Chain not found', { status: 404 })
+        return createRpcErrorResponse(null, RpcErrorCode.resourceNotFound, 'Chain not found', { status: 404 })
       }
 
       // POST requests are RPC calls
-      return checkRateLimitAndHandlePublic(chain, cleanRequest, clientIp, env, ctx)
+      return handlePublicRequest(chain, chainRequest, clientIp, env, ctx)
     }
 
     // Extract first segment: "chain"
-    const chain = path.slice(start, nextSlash)
-    if (!chain) {
+    const segment = path.slice(start, nextSlash)
+    if (!segment) {
       // CASE: "//foo" or "//"
       // Empty segment implies double slash or invalid path structure.
-      return new Response('Not Found', { status: 404 })
+      return notFound()
     }
 
+    const chain = await resolveChainSlug(env, segment)
+    const chainRequest = chain === segment ? cleanRequest : withChainPath(cleanRequest, segment, chain)
+
     // -------------------------------------------------------------------------
     // 3. Rate Limiting for Public Requests
     // -------------------------------------------------------------------------
@@ -148,11 +211,24 @@ export default {
       if (!token) {
         // CASE: "/:chain/"
         // Trailing slash after chain means it is still a public request.
-        return checkRateLimitAndHandlePublic(chain, cleanRequest, clientIp, env, ctx)
+        if (isWebSocketUpgrade(request)) {
+          return checkRateLimitAndHandleWebSocket(chain, clientIp, env)
+        }
+        return handlePublicRequest(chain, chainRequest, clientIp, env, ctx)
       }
+
+      // CASE: "/:chain/quorum"
+      // Same as the public route, with quorum mode selected by path instead of header.
+      if (token === 'quorum') {
+        chainRequest.headers.set(QUORUM_HEADER, '1')
+        return handlePublicRequest(chain, chainRequest, clientIp, env, ctx)
+      }
+
+      // CASE: "/:chain/:token"
+      return checkApiKeyAndHandle(chain, token, chainRequest, env, ctx)
     }
 
-    return new Response('Not Found', { status: 404 })
+    return notFound()
   },
 
   async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
@@ -162,7 +238,12 @@ export default {
   }
 } satisfies ExportedHandler<Env>
 
-async function checkRateLimitAndHandlePublic(
+/**
+ * Public access: requests are charged in compute units to a budget per client IP.
+ * The budget is checked by the RPC handler, once it knows what a request costs and
+ * whether the cache can answer it for free.
+ */
+async function handlePublicRequest(
   chain: string,
   request: Request,
   clientIp: string,
@@ -170,11 +251,86 @@ async function checkRateLimitAndHandlePublic(
   ctx: ExecutionContext
 ): Promise<Response> {
   // Use the pre-extracted IP since headers have been stripped from request
-  const { success } = await env.RATE_LIMITER.limit({ key: clientIp })
+  const client = `client:${await getClientKey(env, clientIp)}`
+  const budget: RateBudget = { client, limit: PUBLIC_BUDGET_LIMIT, period: PUBLIC_BUDGET_PERIOD }
+  return handleRequest(chain, request, env, ctx, { budget })
+}
+
+/**
+ * The request with its alias path segment replaced by the chain's slug
+ */
+function withChainPath(request: Request, alias: string, chain: string): Request {
+  const url = new URL(request.url)
+  url.pathname = `/${chain}${url.pathname.slice(alias.length + 1)}`
+  return new Request(url, request)
+}
+
+function notFound(): Promise<Response> {
+  return createRpcErrorResponse(null, RpcErrorCode.resourceNotFound, 'Not found', { status: 404 })
+}
+
+/**
+ * Authenticated access: the key must be enabled and allowed on the chain, and is held to
+ * its own compute unit budget. The token stops here, ChainDO only ever sees the public chain path.
+ */
+async function checkApiKeyAndHandle(
+  chain: string,
+  token: string,
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const websocket = isWebSocketUpgrade(request)
+  // WebSocket upgrades have no body to read ids from
+  const errorRequest = websocket ? null : request
+
+  const key = await getApiKey(env, token)
+  if (!key) {
+    return createRpcErrorResponse(errorRequest, RpcErrorCode.serverError, 'Invalid API key', { status: 401 })
+  }
+  if (!isChainAllowed(key, chain)) {
+    return createRpcErrorResponse(errorRequest, RpcErrorCode.serverError, 'API key not allowed for this chain', {
+      status: 403
+    })
+  }
+
+  const budget: RateBudget | null =
+    key.rateLimit === null ? null : { client: `key:${key.id}`, limit: key.rateLimit, period: key.ratePeriod }
+
+  if (websocket) {
+    // A connection costs one unit, each message on it is charged like the same call over HTTP
+    if (budget) {
+      const { allowed, retryAfter } = await chargeBudget(env, budget, 1)
+      if (!allowed) {
+        return createRpcErrorResponse(null, RpcErrorCode.limitExceeded, 'Rate limit exceeded', {
+          retryAfter,
+          status: 429
+        })
+      }
+    }
+    return handleWebSocket(chain, env, budget)
+  }
+
+  const publicRequest = new Request(new URL(`/${chain}`, request.url), request)
+  return handleRequest(chain, publicRequest, env, ctx, { apiKeyId: key.id, budget })
+}
+
+function isWebSocketUpgrade(request: Request): boolean {
+  return request.headers.get('Upgrade')?.toLowerCase() === 'websocket'
+}
+
+async function checkRateLimitAndHandleWebSocket(chain: string, clientIp: string, env: Env): Promise<Response> {
+  // A connection counts as one request, messages on it are charged to the client's compute unit budget
+  const clientKey = await getClientKey(env, clientIp)
+  const { success } = await env.RATE_LIMITER.limit({ key: clientKey })
 
   if (!success) {
-    return new Response('Rate Limit Exceeded', { status: 429 })
+    return createRpcErrorResponse(null, RpcErrorCode.limitExceeded, 'Rate limit exceeded', {
+      retryAfter: RATE_LIMIT_PERIOD,
+      status: 429
+    })
   }
 
-  return handleRequest(chain, request, env, ctx)
+  const budget: RateBudget = { client: `client:${clientKey}`, limit: PUBLIC_BUDGET_LIMIT, period: PUBLIC_BUDGET_PERIOD }
+  return handleWebSocket(chain, env, budget)
 }
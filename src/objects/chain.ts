@@ -1,4 +1,75 @@
 import { DurableObject } from 'cloudflare:workers'
+import {
+  BLOCK_TAGS_HEADER,
+  type BlockRange,
+  BUDGET_HEADER,
+  type ChainFamily,
+  cacheResponse,
+  calculateCacheKey,
+  canServe,
+  chargeBudget,
+  checkBatchLimits,
+  checkLogsLimits,
+  checkMethodPolicy,
+  DEFAULT_REQUEST_LIMITS,
+  FINALIZED_HEADER,
+  type FinalityModel,
+  formatBlockTags,
+  getBodyLimitHit,
+  getCachedResponse,
+  getCacheTtl,
+  getEffectivePrivacyPolicy,
+  getFinalityTtl,
+  getFixedLogsRange,
+  getManualNodes,
+  getMethodCost,
+  getNodeOverrides,
+  getNodeRequirement,
+  getPersistentCache,
+  getRangeFilter,
+  getRequestBlock,
+  HeadTracker,
+  HealthTracker,
+  isImmutableResult,
+  LATEST_MAX_AGE_MS,
+  LatencyWindow,
+  LIMIT_HEADER,
+  type LimitHit,
+  LOGS_CHUNK_SIZE,
+  type LogsFilter,
+  type LogsPiece,
+  MIN_LOGS_CHUNK_SIZE,
+  type MethodOverrides,
+  mergeLogs,
+  type NodeCapabilities,
+  type NodeOverrides,
+  type NodeHealth,
+  type NodePrivacy,
+  type NodeRequirement,
+  parseBlockNumber,
+  type PrivacyPolicy,
+  persistResponse,
+  purgeBlockFromCache,
+  type RateBudget,
+  type RequestLimits,
+  readBodyWithin,
+  splitLogsRange,
+  withoutBanned,
+  withPrivacyPolicy
+} from '@/services'
+import type { JsonRpcRequest, JsonRpcResponse } from '@/types'
+import {
+  classifyRpcError,
+  createRpcError,
+  createRpcErrorResponse,
+  ERROR_CLASS_HEADER,
+  isJsonRpcRequest,
+  isReadOnlyMethod,
+  isTransientError,
+  QUORUM_HEADER,
+  RpcErrorCode,
+  type UpstreamErrorClass
+} from '@/utils'
 
 interface ChainData {
   id: number
@@ -7,6 +78,214 @@ interface ChainData {
   nodes: string[]
   archive_nodes: string[]
   mev_nodes: string[]
+  ws_nodes: string[]
+  // Probed by the node sync, nodes without an entry have not been probed
+  node_capabilities: Record<string, NodeCapabilities>
+  // Declared tracking per chainlist node, nodes without an entry were added by operators
+  node_privacy: Record<string, NodePrivacy>
+  settings: ChainSettings
+}
+
+/**
+ * Per-chain routing settings and request limits, stored as JSON in the chains table
+ */
+interface ChainSettings extends RequestLimits {
+  // Hedge reads slower than this percentile of recent latencies (e.g. 0.9), 0 disables hedging
+  hedgePercentile: number
+  // Nodes further than this many blocks behind the best known head are not routed to
+  maxBlockLag: number
+  // Quorum mode: distinct nodes asked, and how many must return the same answer
+  quorumNodes: number
+  quorumMajority: number
+  // How cache finality is decided: the `finalized` tag, or a confirmation depth below the head
+  finality: FinalityModel
+  confirmations: number
+  // Method policy: the family's allowlist, plus per-chain extra allowed or denied methods
+  family: ChainFamily
+  methods: MethodOverrides | null
+  // Set by operators through the admin API: RPC calls are refused until it is lifted
+  maintenance: boolean
+  // Tracking a node may declare and still be routed to, relaxed while fewer than privacyMinNodes qualify
+  privacy: PrivacyPolicy
+  privacyMinNodes: number
+}
+
+const DEFAULT_CHAIN_SETTINGS: ChainSettings = {
+  ...DEFAULT_REQUEST_LIMITS,
+  confirmations: 64,
+  family: 'evm',
+  finality: 'finalized',
+  hedgePercentile: 0,
+  maintenance: false,
+  maxBlockLag: 10,
+  methods: null,
+  privacy: 'limited',
+  privacyMinNodes: 3,
+  quorumMajority: 2,
+  quorumNodes: 3
+}
+
+/**
+ * What the routing layer knows about a sanitized request
+ */
+interface RouteOptions {
+  // Side-effect-free, so it may be sent to a second node
+  hedge: boolean
+  // The result reveals the node's head block (eth_blockNumber, latest block)
+  reportsHead: boolean
+  // The result is a block object, whose hash is checked for reorgs
+  reportsBlock?: boolean
+  // Block the request is pinned to, nodes known to be below it are skipped
+  minBlock?: number | null
+  // Archive nodes were already tried, a pruned-state error does not send it there again
+  archiveTried?: boolean
+  // Methods, batch size and logs range, nodes known not to serve them are skipped
+  requirement?: NodeRequirement
+}
+
+type RoutingType = 'mev' | 'archive' | 'standard'
+
+// Response header carrying the number of hedged upstream requests, read by analytics
+const HEDGE_HEADER = 'X-NullRPC-Hedged'
+
+// Never hedge sooner than this, even on very fast chains
+const MIN_HEDGE_DELAY = 50
+
+// Head probe cadence, and how long after the last request probing continues
+const HEAD_PROBE_INTERVAL = 30_000
+const HEAD_PROBE_IDLE_TIMEOUT = 5 * 60_000
+
+// DO storage key for the chain slug, needed by alarms after eviction
+const SLUG_STORAGE_KEY = 'slug'
+
+// DO storage key for node health snapshots
+const HEALTH_STORAGE_KEY = 'health'
+
+// Minimum interval between health snapshots, circuit changes are written immediately
+const HEALTH_PERSIST_INTERVAL = 30_000
+
+// Subscription topics served over WebSocket
+const SUBSCRIPTION_TOPICS = ['newHeads', 'logs', 'newPendingTransactions']
+
+// Topic key of a plain newHeads subscription
+const NEW_HEADS_TOPIC_KEY = JSON.stringify(['newHeads'])
+
+// Nodes an eth_getLogs range is spread over in parallel
+const LOGS_CHUNK_CONCURRENCY = 4
+
+// How long to wait for an upstream WebSocket reply
+const UPSTREAM_CALL_TIMEOUT = 10_000
+
+// Upper bound for the upstream reconnect backoff
+const MAX_RECONNECT_DELAY = 30_000
+
+/**
+ * State attached to each client socket. Survives hibernation.
+ * Holds only the chain, the client's subscription ids and the budget its messages are charged to,
+ * whose key is the anonymous limiter key, never client identity.
+ */
+interface SocketAttachment {
+  chain: string
+  // Client subscription id -> topic key
+  subs: Record<string, string>
+  // Null for API keys without a rate limit
+  budget: RateBudget | null
+}
+
+/**
+ * A single upstream subscription shared by every client subscribed to the same topic key
+ */
+interface UpstreamSubscription {
+  params: unknown[]
+  upstreamId: string | null
+  pending: Promise<boolean> | null
+}
+
+interface JsonRpcMessage {
+  id?: unknown
+  method?: string
+  params?: { subscription?: string; result?: unknown }
+  result?: unknown
+  error?: unknown
+}
+
+function jsonRpcError(id: unknown, code: number, message: string): string {
+  return JSON.stringify(createRpcError(id, code, message))
+}
+
+/**
+ * JSON-RPC error for a request over one of the chain's request limits
+ */
+function createLimitError(id: unknown, hit: LimitHit): JsonRpcResponse {
+  return createRpcError(id, RpcErrorCode.limitExceeded, hit.message, { limit: hit.limit })
+}
+
+/**
+ * Reply to a request over one of the chain's request limits. The limit is reported in
+ * LIMIT_HEADER for analytics.
+ */
+function limitResponse(id: unknown, hit: LimitHit, status: number): Response {
+  const response = new Response(JSON.stringify(createLimitError(id, hit)), {
+    headers: { 'Content-Type': 'application/json' },
+    status
+  })
+  response.headers.set(LIMIT_HEADER, hit.violation)
+  return response
+}
+
+/**
+ * Class of the JSON-RPC error in an upstream reply, or null if it has none.
+ * Batch replies carry per-item errors, those are passed through as they are.
+ */
+function classifyUpstreamBody(body: string): UpstreamErrorClass | null {
+  // Cheap pre-check, most replies are results
+  if (!body.includes('"error"')) return null
+
+  try {
+    const reply = JSON.parse(body) as JsonRpcResponse | JsonRpcResponse[]
+    if (Array.isArray(reply) || !reply?.error) return null
+    return classifyRpcError(reply.error)
+  } catch (_) {
+    return null
+  }
+}
+
+function getErrorClass(response: Response | null): string | null {
+  return response?.headers.get(ERROR_CLASS_HEADER) ?? null
+}
+
+/**
+ * Serialize with sorted object keys, so equal results from different clients compare equal
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * Write a JSON-RPC id into a single reply body. Non JSON-RPC bodies are returned unchanged.
+ */
+function withRequestId(body: string, id: unknown): string {
+  try {
+    const reply = JSON.parse(body)
+    if (typeof reply === 'object' && reply !== null && !Array.isArray(reply) && reply.jsonrpc === '2.0') {
+      return JSON.stringify({ ...reply, id })
+    }
+  } catch (_) {
+    // Not JSON
+  }
+  return body
+}
+
+function randomSubscriptionId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')}`
 }
 
 export class ChainDO extends DurableObject<Env> {
@@ -16,16 +295,110 @@ export class ChainDO extends DurableObject<Env> {
   // biome-ignore lint/style/useNamingConvention: constant
   private readonly SYNC_INTERVAL = 60_000 // 1 minute
 
+  // Per-node latency, error rate and circuit breaker state, persisted to DO storage
+  private health = new HealthTracker()
+  private lastHealthPersist = 0
+
+  // Recent upstream latencies, used to derive the hedge delay
+  private latencies = new LatencyWindow()
+
+  // Operator bans, pins and manual upstreams, applied on top of the synced node lists
+  private overrides: NodeOverrides = { banned: new Set(), manual: [], pinned: new Set() }
+
+  // Privacy policy in force after any relaxation, and the nodes it keeps out
+  private privacyPolicy: PrivacyPolicy = DEFAULT_CHAIN_SETTINGS.privacy
+  private privacyExcluded: string[] = []
+
+  // Largest eth_getLogs range each node is known to accept, learned from its range errors
+  private logsRanges = new Map<string, number>()
+
+  // In-flight upstream calls by cache key, shared by identical concurrent reads
+  private inflight = new Map<string, Promise<{ body: string; headers: Headers; status: number }>>()
+
+  // Latest block per node, refreshed by alarm-driven probes while the chain sees traffic
+  private heads = new HeadTracker()
+  private lastRequestAt = 0
+  private headProbeScheduled = false
+  private slugStored = false
+
+  // WebSocket fan-out: one upstream socket per chain, one upstream subscription per topic key.
+  // Client sockets are owned by the DO WebSocket API, this state is rebuilt from their attachments.
+  private upstream: WebSocket | null = null
+  private upstreamConnecting: Promise<WebSocket | null> | null = null
+  private failedUpstreamUrl: string | null = null
+  private topics = new Map<string, UpstreamSubscription>()
+  private pendingCalls = new Map<number, (message: JsonRpcMessage | null) => void>()
+  private nextCallId = 1
+  private reconnectAttempts = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env)
+
+    // Restore node health so an evicted DO does not route to nodes it already ejected, and the
+    // upstream subscriptions of client sockets that outlived the eviction
+    ctx.blockConcurrencyWhile(async () => {
+      const snapshot = await ctx.storage.get<Record<string, NodeHealth>>(HEALTH_STORAGE_KEY)
+      if (snapshot) this.health = new HealthTracker(snapshot)
+
+      await this.restoreTopics()
+    })
+  }
+
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url)
-    const chainSlug = url.pathname.split('/')[1]
+    const [, chainSlug, view] = url.pathname.split('/')
+
+    // Admin changes: reload chain data and overrides from D1 now, not after SYNC_INTERVAL
+    if (request.method === 'POST' && view === 'reload') {
+      this.lastSync = 0
+      await this.ensureChainData(chainSlug)
+      return new Response(JSON.stringify({ configured: this.chainData !== null }), {
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
 
     await this.ensureChainData(chainSlug)
 
     if (!this.chainData) {
-      return new Response(`Chain ${chainSlug} not configured in DB`, { status: 404 })
+      return createRpcErrorResponse(request, RpcErrorCode.resourceNotFound, `Chain ${chainSlug} not configured`, {
+        status: 404
+      })
+    }
+
+    if (request.method === 'GET' && view === 'head') {
+      return this.handleHeadStatus()
     }
 
+    if (request.method === 'GET' && view === 'nodes') {
+      return this.handleNodeStatus()
+    }
+
+    if (this.getSettings().maintenance) {
+      return createRpcErrorResponse(
+        request.headers.get('Upgrade') === 'websocket' ? null : request,
+        RpcErrorCode.resourceUnavailable,
+        `Chain ${chainSlug} is under maintenance`,
+        { status: 503 }
+      )
+    }
+
+    if (request.headers.get('Upgrade') === 'websocket') {
+      const budget = request.headers.get(BUDGET_HEADER)
+      return this.handleWebSocketUpgrade(chainSlug, budget ? (JSON.parse(budget) as RateBudget) : null)
+    }
+
+    this.lastRequestAt = Date.now()
+    this.scheduleHeadProbe()
+
+    const response = await this.handleRpcRequest(request, chainSlug)
+    return this.withChainHeaders(response)
+  }
+
+  /**
+   * Sanitize and route a JSON-RPC request, single or batch
+   */
+  private async handleRpcRequest(request: Request, chainSlug: string): Promise<Response> {
     // -------------------------------------------------------------------------
     // Privacy & Security: Payload Sanitization
     // -------------------------------------------------------------------------
@@ -34,44 +407,43 @@ export class ChainDO extends DurableObject<Env> {
     // 2. STRIP any non-standard fields (tracking tokens, metadata) from the JSON
     // 3. Reconstruct a clean request to send upstream
 
+    let id: unknown = null
     let method = 'unknown'
     let params: unknown[] = []
+    let batch: unknown[] | null = null
     let requestToUse: Request
 
-    const rawText = await request.text()
+    const rawText = await readBodyWithin(request, this.getSettings().maxBodyBytes)
+    if (rawText === null) {
+      return limitResponse(null, getBodyLimitHit(this.getSettings()), 413)
+    }
 
     try {
       const parsed = JSON.parse(rawText)
-      let sanitized: unknown
 
       if (Array.isArray(parsed)) {
-        // Batch Request: Sanitize every item
-        // biome-ignore lint/suspicious/noExplicitAny: Dynamic JSON payload
-        sanitized = parsed.map((p: any) => ({
-          id: p.id,
-          jsonrpc: '2.0',
-          method: p.method,
-          params: p.params ?? []
-        }))
-        // Note: We don't inspect batch methods for routing yet, defaults to standard
+        // Batch Request: sanitized and routed per item below
+        batch = parsed
+        requestToUse = request
       } else {
         // Single Request: Sanitize
-        sanitized = {
+        const sanitized = {
           id: parsed.id,
           jsonrpc: '2.0',
           method: parsed.method,
           params: parsed.params ?? []
         }
+        id = parsed.id ?? null
         method = parsed.method || 'unknown'
         params = parsed.params ?? []
-      }
 
-      // Create new request with clean payload
-      requestToUse = new Request(request.url, {
-        body: JSON.stringify(sanitized),
-        headers: request.headers,
-        method: request.method
-      })
+        // Create new request with clean payload
+        requestToUse = new Request(request.url, {
+          body: JSON.stringify(sanitized),
+          headers: request.headers,
+          method: request.method
+        })
+      }
     } catch (_) {
       // JSON parse failed: Forward raw text (upstream will likely reject it)
       requestToUse = new Request(request.url, {
@@ -81,24 +453,265 @@ export class ChainDO extends DurableObject<Env> {
       })
     }
 
+    // Quorum mode: reads are answered only when enough distinct nodes agree
+    const quorum = request.headers.has(QUORUM_HEADER)
+
+    if (batch) {
+      return this.handleBatchRequest(batch, request.url, chainSlug, quorum)
+    }
+
+    // Method policy and limits, in front of routing: rejected requests never reach upstream.
+    // Bodies without a method still go up as they are, upstream rejects them itself.
+    if (method !== 'unknown') {
+      const limitHit = checkLogsLimits(method, params, this.getSettings(), this.heads.getHead() || null)
+      if (limitHit) return limitResponse(id, limitHit, 200)
+
+      const rejection = this.checkPolicy(id, method)
+      if (rejection) {
+        return new Response(JSON.stringify(rejection), { headers: { 'Content-Type': 'application/json' } })
+      }
+    }
+
     // Determine request type for smart routing
     const routingType = this.determineRoutingType(method, params)
 
+    if (quorum && routingType !== 'mev' && isReadOnlyMethod(method)) {
+      const reply = await this.handleQuorumRequest({ id, jsonrpc: '2.0', method, params }, routingType)
+      return new Response(JSON.stringify(reply), { headers: { 'Content-Type': 'application/json' } })
+    }
+
+    const options: RouteOptions = {
+      hedge: isReadOnlyMethod(method),
+      minBlock: getRequestBlock(method, params),
+      reportsBlock: method === 'eth_getBlockByNumber' || method === 'eth_getBlockByHash',
+      reportsHead: method === 'eth_blockNumber' || (method === 'eth_getBlockByNumber' && params[0] === 'latest'),
+      requirement: method === 'unknown' ? undefined : getNodeRequirement([{ method, params }])
+    }
+
+    // Large fixed eth_getLogs ranges are served in chunks, anything else is routed by type
+    const logsRange = getFixedLogsRange(method, params)
+    const send =
+      logsRange && logsRange.to - logsRange.from + 1 > LOGS_CHUNK_SIZE
+        ? () => this.handleLogsRequest(requestToUse, params[0] as LogsFilter, logsRange, routingType)
+        : () => this.routeRequest(routingType, requestToUse, chainSlug, options)
+
+    // Identical side-effect-free requests in flight share one upstream call
+    if (isReadOnlyMethod(method) && method !== 'unknown') {
+      const key = await calculateCacheKey(chainSlug, { method, params })
+      return this.coalesce(key, id, send)
+    }
+
     // Route based on type, passing the SANITIZED request
+    return send()
+  }
+
+  /**
+   * Single-flight: the first request for a key goes upstream, concurrent requests for the
+   * same key wait for its reply. Every waiter gets the reply with its own id written back.
+   */
+  private async coalesce(key: string, id: unknown, send: () => Promise<Response>): Promise<Response> {
+    let shared = this.inflight.get(key)
+    const leader = !shared
+
+    if (!shared) {
+      shared = send()
+        .then(async (response) => ({ body: await response.text(), headers: response.headers, status: response.status }))
+        .finally(() => this.inflight.delete(key))
+      this.inflight.set(key, shared)
+    }
+
+    const { body, headers, status } = await shared
+
+    const replyHeaders = new Headers(headers)
+    // The body is rewritten below, length and encoding no longer apply
+    replyHeaders.delete('Content-Length')
+    replyHeaders.delete('Content-Encoding')
+    // Hedges are counted once, on the request that made the upstream call
+    if (!leader) replyHeaders.delete(HEDGE_HEADER)
+
+    return new Response(withRequestId(body, id), { headers: replyHeaders, status })
+  }
+
+  /**
+   * Route a sanitized request. Only side-effect-free requests may be hedged.
+   */
+  private routeRequest(
+    routingType: RoutingType,
+    request: Request,
+    chainSlug: string,
+    options: RouteOptions
+  ): Promise<Response> {
     switch (routingType) {
       case 'mev':
-        return this.handleMevRequest(requestToUse)
+        return this.handleMevRequest(request)
       case 'archive':
-        return this.handleArchiveRequest(requestToUse, chainSlug)
+        return this.handleArchiveRequest(request, chainSlug, options)
+      default:
+        return this.handleStandardRequest(request, chainSlug, options)
+    }
+  }
+
+  /**
+   * Handle a batch by splitting it per routing type.
+   *
+   * Every item is sanitized and re-numbered with its position, so that duplicate or missing
+   * client ids cannot collide upstream. Each group goes to its own node pool, in batches no larger
+   * than the nodes accept, then the replies are put back in the original order with the original ids.
+   */
+  private async handleBatchRequest(
+    items: unknown[],
+    url: string,
+    chainSlug: string,
+    quorum: boolean
+  ): Promise<Response> {
+    const batchHit = checkBatchLimits(items.length, this.getSettings())
+    if (batchHit) return limitResponse(null, batchHit, 413)
+
+    const replies: JsonRpcResponse[] = new Array(items.length)
+    const groups: Record<RoutingType, JsonRpcRequest[]> = { archive: [], mev: [], standard: [] }
+    const quorumCalls: Promise<void>[] = []
+    const ids: unknown[] = new Array(items.length)
+    const minBlocks: Record<RoutingType, number | null> = { archive: null, mev: null, standard: null }
+    let hedges = 0
+
+    items.forEach((item, index) => {
+      ids[index] = (item as { id?: unknown } | null)?.id ?? null
+
+      if (!isJsonRpcRequest(item)) {
+        replies[index] = createRpcError(ids[index], RpcErrorCode.invalidRequest, 'Invalid request')
+        return
+      }
+
+      const rejection = this.checkPolicy(ids[index], item.method)
+      if (rejection) {
+        replies[index] = rejection
+        return
+      }
+
+      const params = Array.isArray(item.params) ? item.params : []
+
+      const limitHit = checkLogsLimits(item.method, params, this.getSettings(), this.heads.getHead() || null)
+      if (limitHit) {
+        replies[index] = createLimitError(ids[index], limitHit)
+        return
+      }
+      const routingType = this.determineRoutingType(item.method, params)
+
+      // In quorum mode every read is checked on its own, writes are routed as usual
+      if (quorum && routingType !== 'mev' && isReadOnlyMethod(item.method)) {
+        quorumCalls.push(
+          this.handleQuorumRequest({ id: ids[index], jsonrpc: '2.0', method: item.method, params }, routingType).then(
+            (reply) => {
+              replies[index] = reply
+            }
+          )
+        )
+        return
+      }
+
+      groups[routingType].push({
+        id: index,
+        jsonrpc: '2.0',
+        method: item.method,
+        params
+      })
+
+      // A group goes to one node, which has to have the highest block any item is pinned to
+      const block = getRequestBlock(item.method, params)
+      if (block !== null) minBlocks[routingType] = Math.max(minBlocks[routingType] ?? 0, block)
+    })
+
+    await Promise.all(quorumCalls)
+
+    // A group larger than any node accepts is sent as several batches, each to its own node
+    const batches = (Object.keys(groups) as RoutingType[]).flatMap((routingType) => {
+      const group = groups[routingType]
+      const size = routingType === 'mev' ? group.length : this.getMaxBatchSize(group)
+
+      const split: { routingType: RoutingType; batch: JsonRpcRequest[] }[] = []
+      for (let i = 0; i < group.length; i += size) {
+        split.push({ batch: group.slice(i, i + size), routingType })
+      }
+      return split
+    })
+
+    await Promise.all(
+      batches.map(async ({ routingType, batch }) => {
+        const response = await this.routeRequest(
+          routingType,
+          new Request(url, {
+            // Nodes that refuse batches are sent single calls
+            body: JSON.stringify(batch.length === 1 ? batch[0] : batch),
+            headers: { 'Content-Type': 'application/json' },
+            method: 'POST'
+          }),
+          chainSlug,
+          {
+            hedge: batch.every((item) => isReadOnlyMethod(item.method)),
+            minBlock: minBlocks[routingType],
+            reportsHead: false,
+            requirement: getNodeRequirement(
+              batch.map((item) => ({ method: item.method, params: (item.params as unknown[]) ?? [] }))
+            )
+          }
+        )
+        hedges += Number(response.headers.get(HEDGE_HEADER) || 0)
+
+        const byPosition = new Map<number, JsonRpcResponse>()
+        let batchError = createRpcError(null, RpcErrorCode.internalError, 'No response from upstream')
+
+        try {
+          const body = (await response.json()) as JsonRpcResponse | JsonRpcResponse[]
+          if (Array.isArray(body)) {
+            for (const reply of body) {
+              if (typeof reply?.id === 'number') byPosition.set(reply.id, reply)
+            }
+          } else if (typeof body?.id === 'number') {
+            byPosition.set(body.id, body)
+          } else if (body?.error) {
+            // Some nodes answer a whole batch with a single error object
+            batchError = body
+          }
+        } catch (_) {
+          // Non-JSON reply, every item in the batch gets the generic error
+        }
+
+        for (const item of batch) {
+          const position = item.id as number
+          const reply = byPosition.get(position) ?? batchError
+          replies[position] = { ...reply, id: ids[position] }
+        }
+      })
+    )
+
+    const response = new Response(JSON.stringify(replies), {
+      headers: { 'Content-Type': 'application/json' }
+    })
+    if (hedges > 0) response.headers.set(HEDGE_HEADER, String(hedges))
+
+    return response
+  }
+
+  /**
+   * Error reply for a method the chain's policy keeps from upstream, or null if it may go up
+   */
+  private checkPolicy(id: unknown, method: string): JsonRpcResponse | null {
+    const { family, methods } = this.getSettings()
+
+    switch (checkMethodPolicy(method, family, methods)) {
+      case 'denied':
+        return createRpcError(id, RpcErrorCode.methodNotAllowed, `Method not allowed: ${method}`)
+      case 'unsupported':
+        return createRpcError(id, RpcErrorCode.methodNotFound, `Method not found: ${method}`)
       default:
-        return this.handleStandardRequest(requestToUse, chainSlug)
+        return null
     }
   }
 
   /**
    * Determine the routing type based on method and params
    */
-  private determineRoutingType(method: string, params: unknown[]): 'mev' | 'archive' | 'standard' {
+  private determineRoutingType(method: string, params: unknown[]): RoutingType {
     // MEV protection for raw transactions
     if (method === 'eth_sendRawTransaction') {
       return 'mev'
@@ -134,7 +747,10 @@ export class ChainDO extends DurableObject<Env> {
       // Hex block number - if it's a low number, likely needs archive
       if (lastParam.startsWith('0x')) {
         const blockNum = Number.parseInt(lastParam, 16)
-        // Consider blocks older than 128 as needing archive (safe head distance)
+        // Consider blocks older than 128 as needing archive (safe head distance).
+        // Resolved `latest` tags arrive as numbers too, so measure against the head when known.
+        const head = this.heads.getHead()
+        if (head > 0) return blockNum > 0 && head - blockNum > 128
         if (blockNum > 0 && blockNum < 15000000) return true // Rough heuristic for ETH
       }
     }
@@ -148,141 +764,1290 @@ export class ChainDO extends DurableObject<Env> {
   private async handleMevRequest(request: Request): Promise<Response> {
     const mevNodes = this.chainData?.mev_nodes || []
 
+    let failure: Response | null = null
+
     // Try MEV nodes first
     if (mevNodes.length > 0) {
-      const shuffled = [...mevNodes].sort(() => 0.5 - Math.random())
-      for (const nodeUrl of shuffled.slice(0, 2)) {
+      for (const nodeUrl of this.health.select(mevNodes, 2)) {
         const response = await this.proxyRequest(nodeUrl, request.clone())
         if (response.ok) return response
+        failure = response
       }
     }
 
     // Fallback to regular nodes if MEV nodes fail or don't exist
     const nodes = this.chainData?.nodes || []
     if (nodes.length === 0) {
-      return new Response(JSON.stringify({ error: 'No nodes available' }), {
-        headers: { 'Content-Type': 'application/json' },
-        status: 503
-      })
+      return createRpcErrorResponse(request, RpcErrorCode.resourceUnavailable, 'No nodes available', { status: 503 })
     }
 
-    const shuffled = [...nodes].sort(() => 0.5 - Math.random())
-    for (const nodeUrl of shuffled.slice(0, 3)) {
+    for (const nodeUrl of this.health.select(nodes, 3)) {
       const response = await this.proxyRequest(nodeUrl, request.clone())
       if (response.ok) return response
+      failure = response
     }
 
-    return new Response(JSON.stringify({ error: 'All nodes failed for transaction' }), {
-      headers: { 'Content-Type': 'application/json' },
-      status: 502
-    })
+    return this.upstreamFailure(request, 'All nodes failed for transaction', failure)
   }
 
   /**
    * Handle archive-specific requests
    */
-  private async handleArchiveRequest(request: Request, chainSlug: string): Promise<Response> {
+  private async handleArchiveRequest(request: Request, chainSlug: string, options: RouteOptions): Promise<Response> {
     const archiveNodes = this.chainData?.archive_nodes || []
 
     if (archiveNodes.length === 0) {
       // Fall back to regular nodes - they might work for some requests
-      return this.handleStandardRequest(request, chainSlug)
+      return this.handleStandardRequest(request, chainSlug, options)
     }
 
-    const shuffled = [...archiveNodes].sort(() => 0.5 - Math.random())
-    for (const nodeUrl of shuffled.slice(0, 3)) {
-      const response = await this.proxyRequest(nodeUrl, request.clone())
-      if (response.ok) return response
-    }
+    const response = await this.tryNodes(archiveNodes, request, 3, options)
+    if (response?.ok) return response
 
     // Fallback to standard nodes
-    return this.handleStandardRequest(request, chainSlug)
+    return this.handleStandardRequest(request, chainSlug, { ...options, archiveTried: true })
   }
 
   /**
    * Handle standard requests
    */
-  private async handleStandardRequest(request: Request, chainSlug: string): Promise<Response> {
+  private async handleStandardRequest(request: Request, chainSlug: string, options: RouteOptions): Promise<Response> {
     const nodes = this.chainData?.nodes || []
 
     if (nodes.length === 0) {
-      return new Response(JSON.stringify({ error: `No nodes available for ${chainSlug}` }), {
-        headers: { 'Content-Type': 'application/json' },
+      return createRpcErrorResponse(request, RpcErrorCode.resourceUnavailable, `No nodes available for ${chainSlug}`, {
         status: 503
       })
     }
 
-    const shuffled = [...nodes].sort(() => 0.5 - Math.random())
-    for (const nodeUrl of shuffled.slice(0, 3)) {
-      const response = await this.proxyRequest(nodeUrl, request.clone())
-      if (response.ok) return response
+    // Every node is known not to serve it (e.g. trace_* without a trace-enabled node), no point trying
+    const archiveNodes = this.chainData?.archive_nodes || []
+    if (this.getCapableNodes([...nodes, ...archiveNodes], options.requirement).length === 0) {
+      return createRpcErrorResponse(
+        request,
+        RpcErrorCode.resourceUnavailable,
+        `No node available for ${chainSlug} supports this request`,
+        { status: 503 }
+      )
     }
 
-    return new Response(JSON.stringify({ error: 'All upstream nodes failed' }), {
-      headers: { 'Content-Type': 'application/json' },
-      status: 502
-    })
+    const response = await this.tryNodes(nodes, request, 3, options)
+    if (response?.ok) return response
+
+    // Full nodes have pruned the state, archive nodes keep it
+    if (getErrorClass(response) === 'missing_state' && !options.archiveTried && archiveNodes.length > 0) {
+      const archived = await this.tryNodes(archiveNodes, request, 3, { ...options, archiveTried: true })
+      if (archived?.ok) return archived
+    }
+
+    return this.upstreamFailure(request, 'All upstream nodes failed', response)
   }
 
-  private async ensureChainData(slug: string) {
-    const now = Date.now()
-    if (this.chainData && now - this.lastSync < this.SYNC_INTERVAL) {
-      return
+  /**
+   * Serve a large fixed eth_getLogs range in chunks aligned to LOGS_CHUNK_SIZE.
+   *
+   * Chunks are looked up in the cache first. The rest are spread over several nodes in
+   * parallel, each node taking pieces no larger than the range it is known to accept; a range
+   * error shrinks that and the piece is split again. Any other failure takes the node out and
+   * leaves its piece to the others. Finalized chunks are cached under their own keys.
+   */
+  private async handleLogsRequest(
+    request: Request,
+    filter: LogsFilter,
+    range: BlockRange,
+    routingType: RoutingType
+  ): Promise<Response> {
+    const slug = this.chainData?.slug ?? ''
+    const archiveNodes = this.chainData?.archive_nodes || []
+    const pool = routingType === 'archive' && archiveNodes.length > 0 ? archiveNodes : this.chainData?.nodes || []
+    // Pieces can shrink down to MIN_LOGS_CHUNK_SIZE, nodes that take less than that are left out
+    const capable = this.getCapableNodes(pool, { calls: 1, logsRange: MIN_LOGS_CHUNK_SIZE, methods: ['eth_getLogs'] })
+    const nodes = this.health.select(
+      this.heads.filterSynced(capable, this.getSettings().maxBlockLag, range.to),
+      LOGS_CHUNK_CONCURRENCY
+    )
+    if (nodes.length === 0) {
+      return createRpcErrorResponse(request, RpcErrorCode.resourceUnavailable, `No nodes available for ${slug}`, {
+        status: 503
+      })
     }
 
-    // Load from D1
-    try {
-      const result = await this.env.DB.prepare('SELECT * FROM chains WHERE slug = ?').bind(slug).first()
+    const tier = getPersistentCache(this.env)
+    const finalized = this.getFinalizedBlock()
+    const chunks = await Promise.all(
+      splitLogsRange(range).map(async (chunk) => {
+        const params = [getRangeFilter(filter, chunk)]
+        return { chunk, key: await calculateCacheKey(slug, { method: 'eth_getLogs', params }), params }
+      })
+    )
 
-      if (result) {
-        this.chainData = {
-          archive_nodes: JSON.parse((result.archive_nodes as string) || '[]'),
-          chainId: result.chainId as number,
-          id: result.id as number,
-          mev_nodes: result.mev_protection ? JSON.parse(result.mev_protection as string) : [],
-          nodes: JSON.parse((result.nodes as string) || '[]'),
-          slug: result.slug as string
+    // 1. Cached chunks
+    const pieces: LogsPiece[] = []
+    const cached = new Set<number>()
+    await Promise.all(
+      chunks.map(async ({ chunk, key }) => {
+        const hit = await getCachedResponse(key, finalized !== null && chunk.to <= finalized ? tier : null, this.ctx)
+        const reply = hit ? ((await hit.json().catch(() => null)) as JsonRpcResponse | null) : null
+        if (!Array.isArray(reply?.result)) return
+
+        pieces.push({ from: chunk.from, logs: reply.result })
+        cached.add(chunk.from)
+      })
+    )
+
+    // 2. The rest, spread over the nodes
+    const queue: BlockRange[] = chunks.filter(({ chunk }) => !cached.has(chunk.from)).map(({ chunk }) => ({ ...chunk }))
+    const failed = new Set<string>()
+    let failure: Response | null = null
+    let rejection: Response | null = null
+
+    const work = async (nodeUrl: string) => {
+      while (queue.length > 0 && !rejection) {
+        const piece = queue.shift() as BlockRange
+        const size =
+          this.logsRanges.get(nodeUrl) ?? this.chainData?.node_capabilities[nodeUrl]?.maxLogsRange ?? LOGS_CHUNK_SIZE
+        if (piece.to - piece.from + 1 > size) {
+          queue.unshift({ from: piece.from + size, to: piece.to })
+          piece.to = piece.from + size - 1
         }
-        this.lastSync = now
-      } else {
-        // If not found, maybe we should seed it? Or just return null.
-        this.chainData = null
+
+        const body = JSON.stringify({
+          id: 1,
+          jsonrpc: '2.0',
+          method: 'eth_getLogs',
+          params: [getRangeFilter(filter, piece)]
+        })
+        const response = await this.proxyRequest(
+          nodeUrl,
+          new Request(nodeUrl, { body, headers: { 'Content-Type': 'application/json' }, method: 'POST' })
+        )
+
+        if (response.ok) {
+          const reply = (await response.json().catch(() => null)) as JsonRpcResponse | null
+          if (Array.isArray(reply?.result)) {
+            pieces.push({ from: piece.from, logs: reply.result })
+            continue
+          }
+          // Every node would give the same error, it goes back to the client
+          if (reply?.error) {
+            rejection = new Response(JSON.stringify(reply), response)
+            return
+          }
+        }
+
+        queue.unshift(piece)
+        failure = response
+
+        // Too wide for this node: remember what it takes, and split the piece on the next round
+        const pieceSize = piece.to - piece.from + 1
+        if (getErrorClass(response) === 'range_limit' && pieceSize > MIN_LOGS_CHUNK_SIZE) {
+          this.logsRanges.set(nodeUrl, Math.max(MIN_LOGS_CHUNK_SIZE, Math.floor(pieceSize / 2)))
+          continue
+        }
+
+        failed.add(nodeUrl)
+        return
       }
-    } catch (e) {
-      console.error('Failed to load chain data from D1', e)
-      // Keep old data if available on error?
-      if (!this.chainData) {
-        this.chainData = null
+    }
+
+    // A node that ran out of work may still be needed for a piece another node gave back
+    let active = nodes
+    while (queue.length > 0 && !rejection && active.length > 0) {
+      await Promise.all(active.map(work))
+      active = active.filter((nodeUrl) => !failed.has(nodeUrl))
+    }
+
+    if (rejection) return rejection
+    if (queue.length > 0) return this.upstreamFailure(request, 'All upstream nodes failed', failure)
+
+    // 3. Cache the fetched chunks, finalized ones for good
+    for (const { chunk, key, params } of chunks) {
+      if (cached.has(chunk.from)) continue
+
+      const logs = mergeLogs(pieces, chunk)
+      const ttl = getFinalityTtl(getCacheTtl('eth_getLogs', params), 'eth_getLogs', params, logs, finalized)
+      const chunkBody = JSON.stringify({ id: null, jsonrpc: '2.0', result: logs })
+
+      this.ctx.waitUntil(cacheResponse(key, new Response(chunkBody), ttl, this.ctx))
+      if (tier && isImmutableResult('eth_getLogs', params, logs, finalized)) {
+        this.ctx.waitUntil(persistResponse(key, chunkBody, tier))
       }
     }
+
+    const result = mergeLogs(pieces, range)
+    return new Response(JSON.stringify({ id: null, jsonrpc: '2.0', result }), {
+      headers: { 'Content-Type': 'application/json' }
+    })
   }
 
-  private async proxyRequest(targetUrl: string, originalRequest: Request): Promise<Response> {
-    try {
-      const cleanHeaders = new Headers()
-      cleanHeaders.set('Content-Type', 'application/json')
-      cleanHeaders.set('Accept', 'application/json')
-      cleanHeaders.set('User-Agent', 'NullRPC/1.0')
+  /**
+   * Error reply once every node failed. It carries the class of the last failure,
+   * and the upstream error itself when a node answered with one.
+   */
+  private async upstreamFailure(request: Request, message: string, failure: Response | null): Promise<Response> {
+    const errorClass = getErrorClass(failure)
+    const upstreamError =
+      failure && errorClass ? ((await failure.json().catch(() => null)) as JsonRpcResponse | null) : null
 
-      const response = await fetch(targetUrl, {
-        body: originalRequest.body,
-        headers: cleanHeaders,
-        method: originalRequest.method
+    const response = await createRpcErrorResponse(request, RpcErrorCode.resourceUnavailable, message, {
+      data: upstreamError?.error,
+      status: 502
+    })
+    if (errorClass) response.headers.set(ERROR_CLASS_HEADER, errorClass)
+    return response
+  }
+
+  /**
+   * Send a read to several distinct nodes and answer only if enough of them agree.
+   *
+   * Results are compared in canonical form. Agreeing errors (e.g. a revert) are returned
+   * as the answer. Without a majority, the error lists the distinct answers and how many
+   * nodes gave each, never which nodes.
+   */
+  private async handleQuorumRequest(payload: JsonRpcRequest, routingType: RoutingType): Promise<JsonRpcResponse> {
+    const settings = this.chainData?.settings ?? DEFAULT_CHAIN_SETTINGS
+    const archiveNodes = this.chainData?.archive_nodes || []
+    const pool =
+      routingType === 'archive' && archiveNodes.length >= settings.quorumNodes
+        ? archiveNodes
+        : this.chainData?.nodes || []
+
+    const capable = this.getCapableNodes(
+      pool,
+      getNodeRequirement([{ method: payload.method, params: payload.params ?? [] }])
+    )
+    const synced = this.heads.filterSynced(
+      capable,
+      settings.maxBlockLag,
+      getRequestBlock(payload.method, payload.params ?? [])
+    )
+    const selected = this.health.select(synced, settings.quorumNodes)
+    if (selected.length < settings.quorumMajority) {
+      return createRpcError(payload.id, RpcErrorCode.serverError, 'Not enough nodes available for quorum')
+    }
+
+    const body = JSON.stringify({ ...payload, id: 1 })
+    const answers = await Promise.all(
+      selected.map(async (nodeUrl) => {
+        const response = await this.proxyRequest(
+          nodeUrl,
+          new Request(nodeUrl, { body, headers: { 'Content-Type': 'application/json' }, method: 'POST' })
+        )
+        if (!response.ok) return null
+
+        try {
+          const reply = (await response.json()) as JsonRpcResponse
+          if (reply.error) return { error: reply.error }
+          return reply.result === undefined ? null : { result: reply.result }
+        } catch (_) {
+          return null
+        }
       })
+    )
+
+    // Group identical answers
+    const groups = new Map<string, { answer: { result?: unknown; error?: JsonRpcResponse['error'] }; count: number }>()
+    let failed = 0
 
-      if (!response.ok) {
-        console.warn(`[Proxy] Node failed: ${targetUrl} | Status: ${response.status} | ${response.statusText}`)
+    for (const answer of answers) {
+      if (!answer) {
+        failed++
+        continue
       }
+      const key = canonicalJson(answer)
+      const group = groups.get(key)
+      if (group) group.count++
+      else groups.set(key, { answer, count: 1 })
+    }
 
-      return response
-    } catch (e: unknown) {
-      const errorMessage = e instanceof Error ? e.message : 'Unknown error'
-      console.error(`[Proxy] Connection error to ${targetUrl}:`, errorMessage)
+    const ranked = [...groups.values()].sort((a, b) => b.count - a.count)
+    const winner = ranked[0]
 
-      return new Response(JSON.stringify({ details: errorMessage, error: 'Upstream connection failed' }), {
-        headers: { 'Content-Type': 'application/json' },
-        status: 502
-      })
+    if (winner && winner.count >= settings.quorumMajority) {
+      return { ...winner.answer, id: payload.id ?? null, jsonrpc: '2.0' }
+    }
+
+    return {
+      error: {
+        code: RpcErrorCode.serverError,
+        data: {
+          answers: ranked.map(({ answer, count }) => ({ ...answer, count })),
+          failed,
+          nodes: selected.length,
+          required: settings.quorumMajority
+        },
+        message: 'Quorum not reached'
+      },
+      id: payload.id ?? null,
+      jsonrpc: '2.0'
     }
   }
+
+  /**
+   * Try up to `count` nodes in health order and return the first ok response. If none is ok,
+   * the last failed response is returned, or null when no node could be tried.
+   *
+   * Nodes lagging behind the chain head are skipped. With hedging enabled, a node that has
+   * not answered within the chain's hedge delay is raced against the next node in line.
+   */
+  private async tryNodes(
+    nodes: string[],
+    request: Request,
+    count: number,
+    options: RouteOptions
+  ): Promise<Response | null> {
+    const maxLag = this.chainData?.settings.maxBlockLag ?? DEFAULT_CHAIN_SETTINGS.maxBlockLag
+    const capable = this.getCapableNodes(nodes, options.requirement)
+    const selected = this.health.select(this.heads.filterSynced(capable, maxLag, options.minBlock ?? null), count)
+    const hedgeDelay = options.hedge ? this.getHedgeDelay() : null
+    let failure: Response | null = null
+
+    let index = 0
+    while (index < selected.length) {
+      const nodeUrl = selected[index]
+      const backupUrl = selected[index + 1]
+
+      if (hedgeDelay === null || !backupUrl) {
+        const response = await this.proxyRequest(nodeUrl, request.clone(), options)
+        if (response.ok) return response
+        failure = response
+        index++
+        continue
+      }
+
+      const { response, raced } = await this.hedgedRequest(nodeUrl, backupUrl, request, hedgeDelay, options)
+      if (response.ok) return response
+      failure = response
+
+      // A race used up both nodes, a fast failure only the first
+      index += raced ? 2 : 1
+    }
+
+    return failure
+  }
+
+  /**
+   * Largest batch of `calls` some node serving their methods accepts, from the probed limits.
+   * A node without a probed limit may be sent any size, as may a chain where no node serves
+   * the methods (the batch is then refused as a whole).
+   */
+  private getMaxBatchSize(calls: JsonRpcRequest[]): number {
+    const requirement = getNodeRequirement(
+      calls.map((call) => ({ method: call.method, params: (call.params as unknown[]) ?? [] }))
+    )
+    const nodes = [...(this.chainData?.nodes ?? []), ...(this.chainData?.archive_nodes ?? [])]
+    const capable = this.getCapableNodes(nodes, { ...requirement, calls: 1 })
+    if (capable.length === 0) return calls.length
+
+    let best = 1
+    for (const nodeUrl of capable) {
+      const maxBatch = this.chainData?.node_capabilities[nodeUrl]?.maxBatch ?? null
+      if (maxBatch === null) return calls.length
+      best = Math.max(best, maxBatch)
+    }
+    return best
+  }
+
+  /**
+   * The nodes not known to be unable to serve a request
+   */
+  private getCapableNodes(nodes: string[], requirement: NodeRequirement | undefined): string[] {
+    if (!requirement) return nodes
+
+    const capabilities = this.chainData?.node_capabilities ?? {}
+    return nodes.filter((nodeUrl) => canServe(capabilities[nodeUrl], requirement))
+  }
+
+  /**
+   * Send to the primary node and, if it has not answered after `delayMs`, send the same
+   * request to the backup. The first ok response wins and the other request is aborted.
+   * If both fail, the later failure is returned.
+   */
+  private async hedgedRequest(
+    primaryUrl: string,
+    backupUrl: string,
+    request: Request,
+    delayMs: number,
+    options: RouteOptions
+  ): Promise<{ response: Response; raced: boolean }> {
+    const primaryAbort = new AbortController()
+    const primary = this.proxyRequest(primaryUrl, request.clone(), options, primaryAbort.signal)
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), delayMs)
+    })
+    const early = await Promise.race([primary, timeout])
+    clearTimeout(timer)
+
+    // Primary answered in time, no hedge needed
+    if (early) return { raced: false, response: early }
+
+    const backupAbort = new AbortController()
+    const backup = this.proxyRequest(backupUrl, request.clone(), options, backupAbort.signal)
+
+    const response = await new Promise<Response>((resolve) => {
+      let remaining = 2
+      let settled = false
+
+      const onResult = (result: Response, other: AbortController) => {
+        remaining--
+        if (!settled && (result.ok || remaining === 0)) {
+          settled = true
+          other.abort()
+          resolve(result)
+          return
+        }
+
+        // Losing or failed response, release its body
+        result.body?.cancel().catch(() => undefined)
+      }
+
+      primary.then((result) => onResult(result, backupAbort))
+      backup.then((result) => onResult(result, primaryAbort))
+    })
+
+    if (!response.ok) return { raced: true, response }
+
+    const hedged = new Response(response.body, response)
+    hedged.headers.set(HEDGE_HEADER, '1')
+    return { raced: true, response: hedged }
+  }
+
+  /**
+   * Hedge delay for this chain: the configured percentile of recent upstream latencies.
+   * Null when hedging is disabled or there are not enough samples yet.
+   */
+  private getHedgeDelay(): number | null {
+    const percentile = this.chainData?.settings.hedgePercentile ?? 0
+    if (percentile <= 0) return null
+
+    const latency = this.latencies.percentile(percentile)
+    return latency === null ? null : Math.max(latency, MIN_HEDGE_DELAY)
+  }
+
+  // ---------------------------------------------------------------------------
+  // Head tracking
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Current head and per-node lag for the chain dashboard.
+   * Only node hostnames are exposed, paths may carry provider keys.
+   */
+  private handleHeadStatus(): Response {
+    const { head, nodes } = this.heads.toJSON()
+
+    return new Response(
+      JSON.stringify({
+        head,
+        nodes: Object.entries(nodes).map(([nodeUrl, { block, lag, seenAt }]) => ({
+          block,
+          host: new URL(nodeUrl).host,
+          lag,
+          seenAt
+        }))
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+
+  /**
+   * Every node of the chain with its roles, health, head and overrides, for the admin API.
+   * Full URLs are listed, this must never be served publicly.
+   */
+  private handleNodeStatus(): Response {
+    const { nodes = [], archive_nodes = [], mev_nodes = [], ws_nodes = [] } = this.chainData ?? {}
+    const heads = this.heads.toJSON().nodes
+    const { banned, manual, pinned } = this.overrides
+    const urls = new Set([...nodes, ...archive_nodes, ...mev_nodes, ...ws_nodes, ...banned, ...this.privacyExcluded])
+
+    const list = [...urls].map((nodeUrl) => {
+      const { circuit, consecutiveFailures, errorRate, latencyMs } = this.health.get(nodeUrl)
+      return {
+        archive: archive_nodes.includes(nodeUrl),
+        banned: banned.has(nodeUrl),
+        block: heads[nodeUrl]?.block ?? null,
+        capabilities: this.chainData?.node_capabilities[nodeUrl] ?? null,
+        circuit,
+        consecutiveFailures,
+        errorRate,
+        excludedByPrivacy: this.privacyExcluded.includes(nodeUrl),
+        lag: heads[nodeUrl]?.lag ?? null,
+        latencyMs,
+        manual: manual.includes(nodeUrl),
+        mev: mev_nodes.includes(nodeUrl),
+        pinned: pinned.has(nodeUrl),
+        privacy: this.chainData?.node_privacy[nodeUrl] ?? null,
+        standard: nodes.includes(nodeUrl),
+        url: nodeUrl,
+        ws: ws_nodes.includes(nodeUrl)
+      }
+    })
+
+    return new Response(
+      JSON.stringify({
+        head: this.heads.getHead(),
+        maintenance: this.getSettings().maintenance,
+        nodes: list,
+        privacyPolicy: this.privacyPolicy
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+
+  private scheduleHeadProbe() {
+    if (this.headProbeScheduled) return
+
+    this.headProbeScheduled = true
+    this.ctx.storage.setAlarm(Date.now() + HEAD_PROBE_INTERVAL).catch((e) => {
+      this.headProbeScheduled = false
+      console.error('Failed to schedule head probe', e)
+    })
+  }
+
+  /**
+   * Probe every node's head and the finalized block while the chain sees traffic, and keep
+   * subscriptions alive while clients hold any. The alarm stops once both are idle.
+   */
+  async alarm(): Promise<void> {
+    this.headProbeScheduled = false
+
+    // Also wakes an evicted DO whose clients only listen, the constructor restores their topics
+    this.resubscribeLostTopics()
+
+    const active = Date.now() - this.lastRequestAt < HEAD_PROBE_IDLE_TIMEOUT
+    if (active) {
+      const slug = this.chainData?.slug ?? (await this.ctx.storage.get<string>(SLUG_STORAGE_KEY))
+      if (!slug) return
+
+      await this.ensureChainData(slug)
+      if (!this.chainData) return
+
+      const nodes = new Set([...this.chainData.nodes, ...this.chainData.archive_nodes])
+      await Promise.all([...nodes].map((nodeUrl) => this.probeHead(nodeUrl)))
+      if (this.chainData.settings.finality === 'finalized') await this.probeBlockTags()
+    }
+
+    if (active || this.topics.size > 0) {
+      this.scheduleHeadProbe()
+    }
+  }
+
+  private async probeHead(nodeUrl: string) {
+    const startTime = performance.now()
+
+    try {
+      const response = await fetch(nodeUrl, {
+        body: JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'eth_blockNumber', params: [] }),
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'NullRPC/1.0' },
+        method: 'POST',
+        signal: AbortSignal.timeout(3000)
+      })
+
+      const data = response.ok ? ((await response.json()) as JsonRpcResponse) : null
+      const block = parseBlockNumber(data?.result)
+
+      if (block === null) {
+        this.recordNodeFailure(nodeUrl)
+        return
+      }
+
+      this.heads.observe(nodeUrl, block)
+      this.persistHealth(this.health.recordSuccess(nodeUrl, performance.now() - startTime))
+    } catch (_) {
+      this.recordNodeFailure(nodeUrl)
+    }
+  }
+
+  /**
+   * Fetch the blocks behind the `finalized` and `safe` tags from one healthy node
+   */
+  private async probeBlockTags() {
+    const nodes = this.chainData?.nodes || []
+    const [nodeUrl] = this.health.select(this.heads.filterSynced(nodes, this.getSettings().maxBlockLag), 1)
+    if (!nodeUrl) return
+
+    const [finalized, safe] = await Promise.all([
+      this.fetchTagBlock(nodeUrl, 'finalized'),
+      this.fetchTagBlock(nodeUrl, 'safe')
+    ])
+    if (finalized !== null) this.heads.observeFinalized(finalized)
+    if (safe !== null) this.heads.observeSafe(safe)
+  }
+
+  private async fetchTagBlock(nodeUrl: string, tag: 'finalized' | 'safe'): Promise<number | null> {
+    try {
+      const response = await fetch(nodeUrl, {
+        body: JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'eth_getBlockByNumber', params: [tag, false] }),
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'NullRPC/1.0' },
+        method: 'POST',
+        signal: AbortSignal.timeout(3000)
+      })
+      if (!response.ok) return null
+
+      const data = (await response.json()) as JsonRpcResponse
+      const block = data.result as { number?: unknown } | null | undefined
+      return parseBlockNumber(block?.number)
+    } catch (_) {
+      // Tag not supported or node unreachable, finality falls back to confirmation depth
+      return null
+    }
+  }
+
+  /**
+   * Read the head block and block hash out of a client response without delaying it
+   */
+  private observeResponse(nodeUrl: string, response: Response, options: RouteOptions) {
+    response
+      .json()
+      .then((data) => {
+        const result = (data as JsonRpcResponse).result
+        const blockObject = typeof result === 'object' && result !== null ? (result as Record<string, unknown>) : null
+
+        // eth_blockNumber returns a quantity, eth_getBlockByNumber a block object
+        const block = parseBlockNumber(blockObject ? blockObject.number : result)
+        if (block === null) return
+
+        if (options.reportsHead) this.heads.observe(nodeUrl, block)
+        if (options.reportsBlock && typeof blockObject?.hash === 'string') {
+          this.recordBlockHash(block, blockObject.hash)
+        }
+      })
+      .catch(() => undefined)
+  }
+
+  /**
+   * Track hashes of unfinalized blocks. A height that comes back with a new hash was
+   * reorged, so its cached block data is purged.
+   */
+  private recordBlockHash(block: number, hash: string) {
+    if (!this.heads.recordBlockHash(block, hash, this.getFinalizedBlock()) || !this.chainData) return
+
+    console.warn(`[Reorg] ${this.chainData.slug}: block ${block} replaced by ${hash}`)
+    this.ctx.waitUntil(purgeBlockFromCache(this.chainData.slug, block))
+  }
+
+  private getFinalizedBlock(): number | null {
+    const { finality, confirmations } = this.getSettings()
+    return this.heads.getFinalized(finality, confirmations)
+  }
+
+  /**
+   * Tell the worker how far the chain is finalized, so it can pick cache TTLs,
+   * and what the block tags currently resolve to
+   */
+  private withChainHeaders(response: Response): Response {
+    const finalized = this.getFinalizedBlock()
+    const tags = formatBlockTags({ latest: this.heads.getFreshHead(LATEST_MAX_AGE_MS), ...this.heads.getTags() })
+    if (finalized === null && !tags) return response
+
+    const withHeaders = new Response(response.body, response)
+    if (finalized !== null) withHeaders.headers.set(FINALIZED_HEADER, String(finalized))
+    if (tags) withHeaders.headers.set(BLOCK_TAGS_HEADER, tags)
+    return withHeaders
+  }
+
+  private getSettings(): ChainSettings {
+    return this.chainData?.settings ?? DEFAULT_CHAIN_SETTINGS
+  }
+
+  // ---------------------------------------------------------------------------
+  // WebSocket subscriptions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Accept a client socket through the hibernatable WebSocket API
+   */
+  private handleWebSocketUpgrade(chainSlug: string, budget: RateBudget | null): Response {
+    const [client, server] = Object.values(new WebSocketPair())
+
+    this.ctx.acceptWebSocket(server)
+    server.serializeAttachment({ budget, chain: chainSlug, subs: {} } satisfies SocketAttachment)
+
+    return new Response(null, { status: 101, webSocket: client })
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    const attachment = ws.deserializeAttachment() as SocketAttachment
+
+    let payload: { id?: unknown; method?: unknown; params?: unknown }
+    try {
+      payload = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message))
+    } catch (_) {
+      ws.send(jsonRpcError(null, RpcErrorCode.parseError, 'Parse error'))
+      return
+    }
+
+    if (!payload || typeof payload !== 'object' || typeof payload.method !== 'string') {
+      ws.send(jsonRpcError(null, RpcErrorCode.invalidRequest, 'Invalid request'))
+      return
+    }
+
+    const id = payload.id ?? null
+    const params = Array.isArray(payload.params) ? payload.params : []
+
+    if (payload.method !== 'eth_subscribe' && payload.method !== 'eth_unsubscribe') {
+      // Other calls would skip the edge cache and the caller's budget, they belong on HTTP
+      ws.send(
+        jsonRpcError(
+          id,
+          RpcErrorCode.methodNotSupported,
+          `${payload.method} is not served over WebSocket, only eth_subscribe and eth_unsubscribe are`
+        )
+      )
+      return
+    }
+
+    // Each message is charged to the budget the connection was opened under
+    if (attachment.budget) {
+      const { allowed, retryAfter } = await chargeBudget(
+        this.env,
+        attachment.budget,
+        getMethodCost(payload.method, params)
+      )
+      if (!allowed) {
+        ws.send(JSON.stringify(createRpcError(id, RpcErrorCode.limitExceeded, 'Rate limit exceeded', { retryAfter })))
+        return
+      }
+    }
+
+    await this.ensureChainData(attachment.chain)
+
+    if (payload.method === 'eth_subscribe') {
+      ws.send(await this.subscribe(ws, attachment, id, params))
+    } else {
+      ws.send(await this.unsubscribe(ws, attachment, id, params))
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    const { subs } = ws.deserializeAttachment() as SocketAttachment
+    this.releaseTopics(Object.values(subs), ws)
+
+    try {
+      ws.close(code, reason)
+    } catch (_) {
+      // Already closed
+    }
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    const { subs } = ws.deserializeAttachment() as SocketAttachment
+    this.releaseTopics(Object.values(subs), ws)
+  }
+
+  private async subscribe(ws: WebSocket, attachment: SocketAttachment, id: unknown, params: unknown[]) {
+    const topic = params[0]
+    if (typeof topic !== 'string' || !SUBSCRIPTION_TOPICS.includes(topic)) {
+      return jsonRpcError(id, RpcErrorCode.invalidParams, `Unsupported subscription topic: ${String(topic)}`)
+    }
+
+    // Clients with identical topic and filter share one upstream subscription
+    const topicKey = JSON.stringify(params)
+
+    if (!(await this.ensureUpstreamSubscription(topicKey, params))) {
+      this.releaseTopics([topicKey])
+      return jsonRpcError(id, RpcErrorCode.internalError, 'No upstream WebSocket node available')
+    }
+
+    const subId = randomSubscriptionId()
+    attachment.subs[subId] = topicKey
+    ws.serializeAttachment(attachment)
+
+    // Another socket may have released the topic while we were subscribing
+    if (!this.topics.has(topicKey)) {
+      await this.ensureUpstreamSubscription(topicKey, params)
+    }
+
+    // The alarm keeps checking on the subscription, even if this client never sends again
+    this.scheduleHeadProbe()
+
+    return JSON.stringify({ id, jsonrpc: '2.0', result: subId })
+  }
+
+  private async unsubscribe(ws: WebSocket, attachment: SocketAttachment, id: unknown, params: unknown[]) {
+    const subId = params[0]
+    const topicKey = typeof subId === 'string' ? attachment.subs[subId] : undefined
+
+    if (typeof subId !== 'string' || !topicKey) {
+      return JSON.stringify({ id, jsonrpc: '2.0', result: false })
+    }
+
+    delete attachment.subs[subId]
+    ws.serializeAttachment(attachment)
+    this.releaseTopics([topicKey])
+
+    return JSON.stringify({ id, jsonrpc: '2.0', result: true })
+  }
+
+  /**
+   * Rebuild the topic map from client attachments after the DO was evicted, and subscribe upstream again
+   */
+  private async restoreTopics() {
+    const sockets = this.ctx.getWebSockets()
+
+    for (const ws of sockets) {
+      const { subs } = ws.deserializeAttachment() as SocketAttachment
+      for (const topicKey of Object.values(subs)) {
+        if (!this.topics.has(topicKey)) {
+          this.topics.set(topicKey, { params: JSON.parse(topicKey), pending: null, upstreamId: null })
+        }
+      }
+    }
+    if (this.topics.size === 0) return
+
+    // The upstream is picked from the chain's WebSocket nodes
+    const { chain } = sockets[0].deserializeAttachment() as SocketAttachment
+    await this.ensureChainData(chain)
+
+    this.scheduleResubscribe()
+    this.scheduleHeadProbe()
+  }
+
+  /**
+   * Subscribe upstream again for topics left without a subscription, unless a retry is already scheduled
+   */
+  private resubscribeLostTopics() {
+    const lost = [...this.topics.values()].some((topic) => !topic.upstreamId && !topic.pending)
+    if (lost) this.scheduleResubscribe()
+  }
+
+  /**
+   * Drop upstream subscriptions that no remaining client socket uses
+   */
+  private releaseTopics(topicKeys: string[], closing?: WebSocket) {
+    if (topicKeys.length === 0) return
+
+    const inUse = new Set<string>()
+    for (const ws of this.ctx.getWebSockets()) {
+      if (ws === closing) continue
+      const { subs } = ws.deserializeAttachment() as SocketAttachment
+      for (const topicKey of Object.values(subs)) inUse.add(topicKey)
+    }
+
+    for (const topicKey of topicKeys) {
+      const topic = this.topics.get(topicKey)
+      if (!topic || inUse.has(topicKey)) continue
+
+      this.topics.delete(topicKey)
+      if (topic.upstreamId && this.upstream && this.topics.size > 0) {
+        void this.callUpstream('eth_unsubscribe', [topic.upstreamId])
+      }
+    }
+
+    // Nobody is listening anymore, let the DO go idle
+    if (this.topics.size === 0 && this.upstream) {
+      const socket = this.upstream
+      this.upstream = null
+      try {
+        socket.close(1000, 'No subscribers')
+      } catch (_) {
+        // Already closed
+      }
+    }
+  }
+
+  /**
+   * Make sure the topic has a live upstream subscription.
+   * Concurrent callers for the same topic share one eth_subscribe call.
+   */
+  private ensureUpstreamSubscription(topicKey: string, params: unknown[]): Promise<boolean> {
+    let topic = this.topics.get(topicKey)
+    if (!topic) {
+      topic = { params, pending: null, upstreamId: null }
+      this.topics.set(topicKey, topic)
+    }
+
+    if (topic.upstreamId) return Promise.resolve(true)
+    if (topic.pending) return topic.pending
+
+    const entry = topic
+    const pending = this.callUpstream('eth_subscribe', params).then((reply) => {
+      entry.pending = null
+      entry.upstreamId = typeof reply?.result === 'string' ? reply.result : null
+
+      // Every subscriber left while we were waiting, drop the fresh upstream subscription
+      if (entry.upstreamId && this.topics.get(topicKey) !== entry && this.upstream) {
+        void this.callUpstream('eth_unsubscribe', [entry.upstreamId])
+      }
+
+      return entry.upstreamId !== null
+    })
+    entry.pending = pending
+
+    return pending
+  }
+
+  /**
+   * Send a JSON-RPC call over the upstream socket and wait for its reply
+   */
+  private async callUpstream(method: string, params: unknown[]): Promise<JsonRpcMessage | null> {
+    const socket = await this.connectUpstream()
+    if (!socket) return null
+
+    const id = this.nextCallId++
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        this.pendingCalls.delete(id)
+        resolve(null)
+      }, UPSTREAM_CALL_TIMEOUT)
+
+      this.pendingCalls.set(id, (reply) => {
+        clearTimeout(timeout)
+        this.pendingCalls.delete(id)
+        resolve(reply)
+      })
+
+      try {
+        socket.send(JSON.stringify({ id, jsonrpc: '2.0', method, params }))
+      } catch (_) {
+        this.pendingCalls.get(id)?.(null)
+      }
+    })
+  }
+
+  private connectUpstream(): Promise<WebSocket | null> {
+    if (this.upstream) return Promise.resolve(this.upstream)
+
+    if (!this.upstreamConnecting) {
+      this.upstreamConnecting = this.openUpstream().finally(() => {
+        this.upstreamConnecting = null
+      })
+    }
+
+    return this.upstreamConnecting
+  }
+
+  /**
+   * Open a socket to a WebSocket node, preferring nodes other than the one that last dropped
+   */
+  private async openUpstream(): Promise<WebSocket | null> {
+    const wsNodes = this.chainData?.ws_nodes || []
+    const fresh = wsNodes.filter((nodeUrl) => nodeUrl !== this.failedUpstreamUrl)
+
+    for (const nodeUrl of this.health.select(fresh.length > 0 ? fresh : wsNodes, 3)) {
+      try {
+        // Workers open outbound WebSockets through fetch() with an Upgrade header
+        const response = await fetch(nodeUrl.replace(/^ws(s?):/, 'http$1:'), {
+          // biome-ignore lint/style/useNamingConvention: HTTP header
+          headers: { Upgrade: 'websocket', 'User-Agent': 'NullRPC/1.0' }
+        })
+
+        const socket = response.webSocket
+        if (!socket) {
+          console.warn(`[WS] Upgrade refused: ${nodeUrl} | Status: ${response.status}`)
+          this.recordNodeFailure(nodeUrl)
+          continue
+        }
+
+        socket.accept()
+        socket.addEventListener('message', (event) => this.onUpstreamMessage(event))
+        socket.addEventListener('close', () => this.onUpstreamDropped(socket, nodeUrl))
+        socket.addEventListener('error', () => this.onUpstreamDropped(socket, nodeUrl))
+
+        this.upstream = socket
+        return socket
+      } catch (e: unknown) {
+        const errorMessage = e instanceof Error ? e.message : 'Unknown error'
+        console.error(`[WS] Connection error to ${nodeUrl}:`, errorMessage)
+        this.recordNodeFailure(nodeUrl)
+      }
+    }
+
+    return null
+  }
+
+  private onUpstreamMessage(event: MessageEvent) {
+    let message: JsonRpcMessage
+    try {
+      message = JSON.parse(event.data as string)
+    } catch (_) {
+      return
+    }
+
+    if (message.method === 'eth_subscription' && message.params?.subscription) {
+      this.fanOut(message.params.subscription, message.params.result)
+      return
+    }
+
+    if (typeof message.id === 'number') {
+      this.pendingCalls.get(message.id)?.(message)
+    }
+  }
+
+  /**
+   * Forward an upstream notification to every client subscribed to its topic,
+   * rewriting the subscription id to the one each client was given
+   */
+  private fanOut(upstreamId: string, result: unknown) {
+    let topicKey: string | null = null
+    for (const [key, topic] of this.topics) {
+      if (topic.upstreamId === upstreamId) {
+        topicKey = key
+        break
+      }
+    }
+    if (!topicKey) return
+
+    // New heads carry number and hash, the cheapest reorg signal we get
+    if (topicKey === NEW_HEADS_TOPIC_KEY) {
+      const head = result as { number?: unknown; hash?: unknown } | null
+      const block = parseBlockNumber(head?.number)
+      if (block !== null && typeof head?.hash === 'string') this.recordBlockHash(block, head.hash)
+    }
+
+    const resultJson = JSON.stringify(result)
+
+    for (const ws of this.ctx.getWebSockets()) {
+      const { subs } = ws.deserializeAttachment() as SocketAttachment
+      for (const subId in subs) {
+        if (subs[subId] !== topicKey) continue
+        try {
+          ws.send(
+            `{"jsonrpc":"2.0","method":"eth_subscription","params":{"subscription":"${subId}","result":${resultJson}}}`
+          )
+        } catch (_) {
+          // Client is closing, cleanup happens in webSocketClose
+        }
+      }
+    }
+  }
+
+  private onUpstreamDropped(socket: WebSocket, nodeUrl: string) {
+    // Ignore events from sockets we already replaced or closed on purpose
+    if (this.upstream !== socket) return
+
+    console.warn(`[WS] Upstream dropped: ${nodeUrl}`)
+    this.upstream = null
+    this.failedUpstreamUrl = nodeUrl
+    this.recordNodeFailure(nodeUrl)
+
+    for (const resolve of this.pendingCalls.values()) resolve(null)
+    for (const topic of this.topics.values()) topic.upstreamId = null
+
+    if (this.topics.size > 0) this.scheduleResubscribe()
+  }
+
+  /**
+   * Reconnect to another node and restore every topic, with exponential backoff
+   */
+  private scheduleResubscribe() {
+    if (this.reconnectTimer) return
+
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY)
+    this.reconnectAttempts++
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null
+
+      const results = await Promise.all(
+        [...this.topics].map(([topicKey, topic]) => this.ensureUpstreamSubscription(topicKey, topic.params))
+      )
+
+      if (results.every(Boolean)) {
+        this.reconnectAttempts = 0
+      } else if (this.topics.size > 0) {
+        this.scheduleResubscribe()
+      }
+    }, delay)
+  }
+
+  private async ensureChainData(slug: string) {
+    const now = Date.now()
+    if (this.chainData && now - this.lastSync < this.SYNC_INTERVAL) {
+      return
+    }
+
+    // Load from D1. Chains disabled in the registry are not served, and the registry's family
+    // applies unless the chain's settings name one.
+    try {
+      const result = await this.env.DB.prepare(
+        `SELECT c.*, r.family AS registry_family
+         FROM chains c LEFT JOIN chain_registry r ON r.slug = c.slug
+         WHERE c.slug = ? AND COALESCE(r.enabled, 1) = 1`
+      )
+        .bind(slug)
+        .first()
+
+      if (result) {
+        this.overrides = await getNodeOverrides(this.env.DB, slug)
+        this.health.setPinned(this.overrides.pinned)
+
+        // Manual upstreams join the synced nodes of their kind, banned nodes leave every list
+        const synced: string[] = JSON.parse((result.nodes as string) || '[]')
+        const standardNodes = withoutBanned(
+          [...new Set([...getManualNodes(this.overrides, false), ...synced])],
+          this.overrides
+        )
+        const syncedWs: string[] = JSON.parse((result.ws_nodes as string) || '[]')
+        const wsNodes = withoutBanned(
+          [...new Set([...getManualNodes(this.overrides, true), ...syncedWs])],
+          this.overrides
+        )
+
+        this.chainData = {
+          archive_nodes: withoutBanned(JSON.parse((result.archive_nodes as string) || '[]'), this.overrides),
+          chainId: result.chainId as number,
+          id: result.id as number,
+          mev_nodes: withoutBanned(
+            result.mev_protection ? JSON.parse(result.mev_protection as string) : [],
+            this.overrides
+          ),
+          node_capabilities: JSON.parse((result.node_capabilities as string) || '{}'),
+          node_privacy: JSON.parse((result.node_privacy as string) || '{}'),
+          nodes: standardNodes,
+          settings: {
+            ...DEFAULT_CHAIN_SETTINGS,
+            ...(result.registry_family ? { family: result.registry_family as ChainFamily } : {}),
+            ...JSON.parse((result.settings as string) || '{}')
+          },
+          slug: result.slug as string,
+          ws_nodes: wsNodes
+        }
+        this.lastSync = now
+        this.applyPrivacyPolicy(this.chainData)
+
+        const { nodes, archive_nodes, mev_nodes, ws_nodes } = this.chainData
+        const known = new Set([...nodes, ...archive_nodes, ...mev_nodes, ...ws_nodes])
+        this.health.retain(known)
+        this.heads.retain(known)
+
+        // Nodes new to this object start at the latency measured when they were probed
+        for (const [nodeUrl, { latencyMs }] of Object.entries(this.chainData.node_capabilities)) {
+          if (latencyMs !== null && known.has(nodeUrl)) this.health.seed(nodeUrl, latencyMs)
+        }
+
+        if (!this.slugStored) {
+          this.slugStored = true
+          await this.ctx.storage.put(SLUG_STORAGE_KEY, slug)
+        }
+      } else {
+        // If not found, maybe we should seed it? Or just return null.
+        this.chainData = null
+      }
+    } catch (e) {
+      console.error('Failed to load chain data from D1', e)
+      // Keep old data if available on error?
+      if (!this.chainData) {
+        this.chainData = null
+      }
+    }
+  }
+
+  /**
+   * Take the nodes the chain's privacy policy does not allow off the standard, archive and
+   * WebSocket lists. MEV nodes are configured by operators and always stay.
+   */
+  private applyPrivacyPolicy(chainData: ChainData) {
+    const { node_privacy: privacy, settings } = chainData
+    const policy = getEffectivePrivacyPolicy(chainData.nodes, privacy, settings.privacy, settings.privacyMinNodes)
+
+    if (policy !== settings.privacy) {
+      console.warn(
+        `[Privacy] ${chainData.slug}: fewer than ${settings.privacyMinNodes} nodes under '${settings.privacy}', using '${policy}'`
+      )
+    }
+
+    const listed = [...new Set([...chainData.nodes, ...chainData.archive_nodes, ...chainData.ws_nodes])]
+    const allowed = new Set(withPrivacyPolicy(listed, privacy, policy))
+    this.privacyPolicy = policy
+    this.privacyExcluded = listed.filter((nodeUrl) => !allowed.has(nodeUrl))
+
+    chainData.nodes = withPrivacyPolicy(chainData.nodes, privacy, policy)
+    chainData.archive_nodes = withPrivacyPolicy(chainData.archive_nodes, privacy, policy)
+    chainData.ws_nodes = withPrivacyPolicy(chainData.ws_nodes, privacy, policy)
+  }
+
+  private async proxyRequest(
+    targetUrl: string,
+    originalRequest: Request,
+    options?: RouteOptions,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const startTime = performance.now()
+
+    try {
+      const cleanHeaders = new Headers()
+      cleanHeaders.set('Content-Type', 'application/json')
+      cleanHeaders.set('Accept', 'application/json')
+      cleanHeaders.set('User-Agent', 'NullRPC/1.0')
+
+      const upstream = await fetch(targetUrl, {
+        body: originalRequest.body,
+        headers: cleanHeaders,
+        method: originalRequest.method,
+        signal
+      })
+
+      if (!upstream.ok) {
+        console.warn(`[Proxy] Node failed: ${targetUrl} | Status: ${upstream.status} | ${upstream.statusText}`)
+        this.recordNodeFailure(targetUrl)
+        return upstream
+      }
+
+      const latencyMs = performance.now() - startTime
+      const body = await upstream.text()
+      const errorClass = classifyUpstreamBody(body)
+
+      // Transient errors fail over: the reply is turned into a failed response for the retry loops
+      if (errorClass && isTransientError(errorClass)) {
+        console.warn(`[Proxy] Node error: ${targetUrl} | ${errorClass}`)
+        // A node that is overloaded or slow is unhealthy, one that lacks data or a method is not
+        if (errorClass === 'rate_limited' || errorClass === 'timeout') this.recordNodeFailure(targetUrl)
+        else this.recordNodeSuccess(targetUrl, latencyMs)
+
+        const failed = new Response(body, { headers: { 'Content-Type': 'application/json' }, status: 502 })
+        failed.headers.set(ERROR_CLASS_HEADER, errorClass)
+        return failed
+      }
+
+      this.recordNodeSuccess(targetUrl, latencyMs)
+
+      const response = new Response(body, upstream)
+      // Deterministic errors go back to the client as they are, the class is kept for analytics
+      if (errorClass) response.headers.set(ERROR_CLASS_HEADER, errorClass)
+      if (options?.reportsHead || options?.reportsBlock) this.observeResponse(targetUrl, response.clone(), options)
+
+      return response
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error'
+
+      // Lost a hedge race, not the node's fault
+      if (signal?.aborted) {
+        // The request body is consumed by now, these replies never reach a client with their id
+        return createRpcErrorResponse(null, RpcErrorCode.serverError, 'Upstream request cancelled', { status: 499 })
+      }
+
+      console.error(`[Proxy] Connection error to ${targetUrl}:`, errorMessage)
+      this.recordNodeFailure(targetUrl)
+
+      return createRpcErrorResponse(null, RpcErrorCode.resourceUnavailable, 'Upstream connection failed', {
+        data: errorMessage,
+        status: 502
+      })
+    }
+  }
+
+  private recordNodeSuccess(nodeUrl: string, latencyMs: number) {
+    this.latencies.add(latencyMs)
+    this.persistHealth(this.health.recordSuccess(nodeUrl, latencyMs))
+  }
+
+  private recordNodeFailure(nodeUrl: string) {
+    this.persistHealth(this.health.recordFailure(nodeUrl))
+  }
+
+  /**
+   * Snapshot node health to DO storage, throttled unless a circuit changed state
+   */
+  private persistHealth(force: boolean) {
+    const now = Date.now()
+    if (!force && now - this.lastHealthPersist < HEALTH_PERSIST_INTERVAL) return
+
+    this.lastHealthPersist = now
+    this.ctx.storage.put(HEALTH_STORAGE_KEY, this.health.toJSON()).catch((e) => {
+      console.error('Failed to persist node health', e)
+    })
+  }
 }
@@ -0,0 +1,83 @@
+import { DurableObject } from 'cloudflare:workers'
+
+/**
+ * Body of a request to LimiterDO
+ */
+interface LimitRequest {
+  // Units allowed per period
+  limit: number
+  // Window length in seconds
+  period: number
+  // Units this request consumes (default: 1)
+  cost?: number
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface LimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Seconds until the current fixed window ends
+  reset: number
+  // Seconds until enough of the window has passed for the request to be allowed
+  retryAfter: number
+}
+
+/**
+ * Sliding-window rate limiter, one instance per client (e.g. per API key).
+ *
+ * Approximates a sliding window with two fixed windows: the previous window's count is
+ * weighted by how much of it still overlaps the sliding window. Counts live in memory only,
+ * so an evicted limiter starts from zero, which errs on the side of letting requests through.
+ */
+export class LimiterDO extends DurableObject<Env> {
+  private windowStart = 0
+  private current = 0
+  private previous = 0
+
+  async fetch(request: Request): Promise<Response> {
+    const { limit, period, cost = 1 } = await request.json<LimitRequest>()
+    return Response.json(this.consume(limit, period * 1000, cost, Date.now()))
+  }
+
+  private consume(limit: number, periodMs: number, cost: number, now: number): LimitResult {
+    this.advance(periodMs, now)
+
+    const overlap = 1 - (now - this.windowStart) / periodMs
+    const used = this.previous * overlap + this.current
+    const reset = Math.max(1, Math.ceil((this.windowStart + periodMs - now) / 1000))
+
+    if (used + cost > limit) {
+      // Wait until the previous window's share has decayed enough, or the current window ends
+      const excess = used + cost - limit
+      const decay = this.previous > 0 ? (excess / this.previous) * periodMs : Number.POSITIVE_INFINITY
+      const waitMs = Math.min(decay, this.windowStart + periodMs - now)
+
+      return {
+        allowed: false,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - used)),
+        reset,
+        retryAfter: Math.max(1, Math.ceil(waitMs / 1000))
+      }
+    }
+
+    this.current += cost
+    return { allowed: true, limit, remaining: Math.max(0, Math.floor(limit - used - cost)), reset, retryAfter: 0 }
+  }
+
+  /**
+   * Roll the fixed windows forward to the one containing `now`
+   */
+  private advance(periodMs: number, now: number) {
+    const elapsed = Math.floor((now - this.windowStart) / periodMs)
+    if (elapsed <= 0) return
+
+    this.previous = elapsed === 1 ? this.current : 0
+    this.current = 0
+    // Windows stay aligned to multiples of the period
+    this.windowStart += elapsed * periodMs
+  }
+}
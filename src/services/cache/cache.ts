@@ -8,12 +8,45 @@
  * - NONE (0): Never cache (nonces, pending tx, filters, mutations)
  *
  * Parameter-aware: Many methods change behavior based on block tag (latest vs specific)
+ *
+ * Cost-aware: The same method table gives each method its compute unit cost, which is
+ * charged against the caller's rate limit budget (cache hits are free)
+ *
+ * Finality-aware: TTLs above UNFINALIZED_TTL only hold for finalized data. Once the
+ * response is known, getFinalityTtl() caps data from blocks above the chain's finalized
+ * height, since those blocks may still be reorged.
+ *
+ * Tiered: Immutable replies (finalized, long-lived, non-null) are also kept in a persistent
+ * tier. Lookups go edge -> persistent tier -> upstream, and persistent hits are promoted
+ * back to the edge.
  */
 
+import { getFixedLogsRange, LOGS_CHUNK_SIZE } from '../logs'
+import type { PersistentCache } from './persistent'
+import { normalizeBlockParams } from './tags'
+
+// TTL for data from blocks that are not final yet
+const UNFINALIZED_TTL = 5
+
+// Data cached at least this long is stable enough for the persistent tier, once finalized
+const IMMUTABLE_MIN_TTL = 300
+
+// Edge TTL for replies promoted from the persistent tier
+const PROMOTED_TTL = 900
+
+// Compute units per LOGS_CHUNK_SIZE blocks of an eth_getLogs range
+const LOGS_CHUNK_COST = 20
+
+// Immutable results that are not tied to a block
+const CHAIN_CONSTANT_METHODS = ['eth_chainId', 'net_version', 'web3_sha3']
+
+// Response header through which ChainDO reports the chain's finalized height
+export const FINALIZED_HEADER = 'X-NullRPC-Finalized'
+
 // Block tags that represent moving targets (not cacheable long-term)
 const VOLATILE_BLOCK_TAGS = ['latest', 'earliest', 'pending', 'safe', 'finalized']
 
-// Helper to check if block number is a specific (immutable) block
+// Helper to check if block number is a specific block (immutable once finalized)
 function isSpecificBlock(tag: unknown): boolean {
   if (typeof tag !== 'string') return false
   // Hex block number like "0x10d4f" - must start with 0x and NOT be a named tag
@@ -26,6 +59,23 @@ function isSpecificBlock(tag: unknown): boolean {
  */
 // biome-ignore lint/suspicious/noExplicitAny: params can be any array
 export function getCacheTtl(method: string, params: any[]): number {
+  return getMethodPolicy(method, params).ttl
+}
+
+/**
+ * Compute units a request costs against the caller's rate limit budget.
+ * Cheap lookups cost 1, heavy calls (logs, traces, simulations) far more.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: params can be any array
+export function getMethodCost(method: string, params: any[]): number {
+  return getMethodPolicy(method, params).cost
+}
+
+/**
+ * Cache TTL (seconds) and compute unit cost of a request, from one table of methods
+ */
+// biome-ignore lint/suspicious/noExplicitAny: params can be any array
+function getMethodPolicy(method: string, params: any[]): { ttl: number; cost: number } {
   switch (method) {
     // ═══════════════════════════════════════════════════════════════════════════
     // STATIC / IMMUTABLE DATA - Long TTL (15 minutes)
@@ -34,13 +84,13 @@ export function getCacheTtl(method: string, params: any[]): number {
     case 'eth_chainId':
     case 'net_version':
     case 'web3_clientVersion':
-      return 900
+      return { cost: 1, ttl: 900 }
 
     // Transaction data by hash is immutable once confirmed
     case 'eth_getTransactionByHash':
     case 'eth_getRawTransactionByHash':
     case 'eth_getTransactionReceipt':
-      return 900
+      return { cost: 2, ttl: 900 }
 
     // Block data by hash is immutable
     case 'eth_getBlockByHash':
@@ -48,11 +98,11 @@ export function getCacheTtl(method: string, params: any[]): number {
     case 'eth_getBlockTransactionCountByHash':
     case 'eth_getUncleCountByBlockHash':
     case 'eth_getTransactionByBlockHashAndIndex':
-      return 900
+      return { cost: 2, ttl: 900 }
 
     // web3_sha3 is a pure function (deterministic hash)
     case 'web3_sha3':
-      return 900
+      return { cost: 1, ttl: 900 }
 
     // ═══════════════════════════════════════════════════════════════════════════
     // BLOCK-TAG DEPENDENT - Check if using specific block number
@@ -61,7 +111,7 @@ export function getCacheTtl(method: string, params: any[]): number {
     // Block by number: specific block = long, latest/pending = short
     case 'eth_getBlockByNumber': {
       const blockTag = params[0]
-      return isSpecificBlock(blockTag) ? 900 : 3
+      return { cost: 2, ttl: isSpecificBlock(blockTag) ? 900 : 3 }
     }
 
     // Tx count in block: specific block = long, latest = short
@@ -69,7 +119,7 @@ export function getCacheTtl(method: string, params: any[]): number {
     case 'eth_getUncleCountByBlockNumber':
     case 'eth_getTransactionByBlockNumberAndIndex': {
       const blockTag = params[0]
-      return isSpecificBlock(blockTag) ? 900 : 3
+      return { cost: 2, ttl: isSpecificBlock(blockTag) ? 900 : 3 }
     }
 
     // Balance/code/storage depend on block tag
@@ -79,13 +129,13 @@ export function getCacheTtl(method: string, params: any[]): number {
     case 'eth_getProof': {
       // Last param is usually blockTag
       const blockTag = params[params.length - 1]
-      return isSpecificBlock(blockTag) ? 300 : 3 // 5 min for specific, 3s for latest
+      return { cost: 2, ttl: isSpecificBlock(blockTag) ? 300 : 3 } // 5 min for specific, 3s for latest
     }
 
     // eth_call depends heavily on block tag
     case 'eth_call': {
       const blockTag = params[1] // Second param is block tag
-      return isSpecificBlock(blockTag) ? 300 : 3
+      return { cost: 5, ttl: isSpecificBlock(blockTag) ? 300 : 3 }
     }
 
     // ═══════════════════════════════════════════════════════════════════════════
@@ -97,41 +147,44 @@ export function getCacheTtl(method: string, params: any[]): number {
     case 'eth_maxPriorityFeePerGas':
     case 'eth_feeHistory':
     case 'eth_blobBaseFee':
-      return 3
+      return { cost: 1, ttl: 3 }
 
     // Gas estimation varies but we can cache briefly
     case 'eth_estimateGas':
-      return 3
+      return { cost: 10, ttl: 3 }
 
     // Syncing status is relatively stable during sync
     case 'eth_syncing':
-      return 5
+      return { cost: 1, ttl: 5 }
 
     // Mining/hashrate rarely change
     case 'eth_mining':
     case 'eth_hashrate':
-      return 10
+      return { cost: 1, ttl: 10 }
 
     // Net status is stable
     case 'net_listening':
     case 'net_peerCount':
-      return 10
+      return { cost: 1, ttl: 10 }
 
     // ═══════════════════════════════════════════════════════════════════════════
     // LOGS - Special handling: immutable for specific block ranges
     // ═══════════════════════════════════════════════════════════════════════════
     case 'eth_getLogs': {
       const filter = params[0]
-      if (!filter || typeof filter !== 'object') return 0
+      if (!filter || typeof filter !== 'object') return { cost: LOGS_CHUNK_COST, ttl: 0 }
 
       const { fromBlock, toBlock } = filter as { fromBlock?: string; toBlock?: string }
 
       // If both bounds are specific blocks, logs are immutable
       if (isSpecificBlock(fromBlock) && isSpecificBlock(toBlock)) {
-        return 300 // 5 minutes
+        // Charged per chunk the range is split into, like the upstream calls it takes
+        const range = getFixedLogsRange(method, params)
+        const chunks = range ? Math.ceil((range.to - range.from + 1) / LOGS_CHUNK_SIZE) : 1
+        return { cost: LOGS_CHUNK_COST * chunks, ttl: 300 } // 5 minutes
       }
       // If toBlock is latest/pending, can't cache long
-      return 3
+      return { cost: LOGS_CHUNK_COST, ttl: 3 }
     }
 
     // ═══════════════════════════════════════════════════════════════════════════
@@ -140,11 +193,11 @@ export function getCacheTtl(method: string, params: any[]): number {
 
     // Nonce is critical for tx ordering - NEVER cache
     case 'eth_getTransactionCount':
-      return 0
+      return { cost: 1, ttl: 0 }
 
     // Account list is local state
     case 'eth_accounts':
-      return 0
+      return { cost: 1, ttl: 0 }
 
     // Filter operations are stateful
     case 'eth_newFilter':
@@ -153,26 +206,26 @@ export function getCacheTtl(method: string, params: any[]): number {
     case 'eth_getFilterChanges':
     case 'eth_getFilterLogs':
     case 'eth_uninstallFilter':
-      return 0
+      return { cost: 5, ttl: 0 }
 
-    // Subscription operations
+    // Subscription operations (served over WebSocket by ChainDO)
     case 'eth_subscribe':
     case 'eth_unsubscribe':
-      return 0
+      return { cost: 5, ttl: 0 }
 
     // Transaction sending/signing
     case 'eth_sendRawTransaction':
     case 'eth_sendTransaction':
     case 'eth_signTransaction':
     case 'eth_sign':
-      return 0
+      return { cost: 10, ttl: 0 }
 
     // Txpool is highly dynamic
     case 'txpool_status':
     case 'txpool_content':
     case 'txpool_inspect':
     case 'txpool_contentFrom':
-      return 0
+      return { cost: 20, ttl: 0 }
 
     // Debug/trace methods - expensive and specific
     case 'debug_traceTransaction':
@@ -183,19 +236,145 @@ export function getCacheTtl(method: string, params: any[]): number {
     case 'trace_transaction':
     case 'trace_call':
       // Could cache traces of finalized blocks, but usually called once
-      return 0
+      return { cost: 200, ttl: 0 }
 
     // Simulation - parameters are complex and unique
     case 'eth_simulateV1':
     case 'eth_callMany':
-      return 0
+      return { cost: 50, ttl: 0 }
 
     default:
       // Unknown methods: don't cache by default for safety
-      return 0
+      return { cost: 10, ttl: 0 }
   }
 }
 
+/**
+ * Block a response's data belongs to, for the finality check.
+ * Returns null for data not tied to a block, Infinity for pending or unknown data.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: params can be any array
+function getDataBlock(method: string, params: any[], result: unknown): number | null {
+  const record = typeof result === 'object' && result !== null ? (result as Record<string, unknown>) : null
+
+  switch (method) {
+    case 'eth_getBlockByNumber':
+    case 'eth_getBlockTransactionCountByNumber':
+    case 'eth_getUncleCountByBlockNumber':
+    case 'eth_getTransactionByBlockNumberAndIndex':
+      return parseHexBlock(params[0])
+
+    case 'eth_getBalance':
+    case 'eth_getCode':
+    case 'eth_getStorageAt':
+    case 'eth_getProof':
+      return parseHexBlock(params[params.length - 1])
+
+    case 'eth_call':
+      return parseHexBlock(params[1])
+
+    case 'eth_getLogs':
+      return parseHexBlock((params[0] as { toBlock?: unknown } | undefined)?.toBlock)
+
+    // By-hash lookups: the block is only known from the result
+    case 'eth_getTransactionByHash':
+    case 'eth_getRawTransactionByHash':
+    case 'eth_getTransactionReceipt':
+    case 'eth_getTransactionByBlockHashAndIndex':
+      return parseHexBlock(record?.blockNumber)
+
+    case 'eth_getBlockByHash':
+      return parseHexBlock(record?.number)
+
+    case 'eth_getBlockReceipts': {
+      const first = Array.isArray(result) ? (result[0] as { blockNumber?: unknown } | undefined) : undefined
+      return parseHexBlock(first?.blockNumber ?? params[0])
+    }
+
+    case 'eth_getBlockTransactionCountByHash':
+    case 'eth_getUncleCountByBlockHash':
+      // Only the count comes back, we cannot tell how final the block is
+      return Number.POSITIVE_INFINITY
+
+    default:
+      return null
+  }
+}
+
+function parseHexBlock(value: unknown): number {
+  if (typeof value !== 'string' || !value.startsWith('0x')) return Number.POSITIVE_INFINITY
+  const block = Number.parseInt(value, 16)
+  return Number.isNaN(block) ? Number.POSITIVE_INFINITY : block
+}
+
+/**
+ * Cap a TTL by the finality of the data in the response.
+ * Data at or below the finalized height keeps its TTL, anything newer (or any block-bound
+ * data while the finalized height is unknown) gets UNFINALIZED_TTL.
+ * A null result past the finalized height returns 0 and is not cached: the transaction or block
+ * may be mined on the next poll, or the answering node may just lag behind the head.
+ */
+export function getFinalityTtl(
+  ttl: number,
+  method: string,
+  params: unknown[],
+  result: unknown,
+  finalizedBlock: number | null
+): number {
+  const block = getDataBlock(method, params, result)
+  if (block === null) return ttl
+  const isFinal = finalizedBlock !== null && block <= finalizedBlock
+  if (result === null && !isFinal) return 0
+
+  return isFinal ? ttl : Math.min(ttl, UNFINALIZED_TTL)
+}
+
+/**
+ * Whether a request can have an immutable reply, i.e. is worth a persistent tier lookup
+ */
+export function mayBeImmutable(method: string, params: unknown[]): boolean {
+  return getCacheTtl(method, params) >= IMMUTABLE_MIN_TTL
+}
+
+/**
+ * Whether a reply can never change: a non-null result of a long-lived method, for a block
+ * at or below the finalized height (or not tied to a block at all, like the chain id)
+ */
+export function isImmutableResult(
+  method: string,
+  params: unknown[],
+  result: unknown,
+  finalizedBlock: number | null
+): boolean {
+  // null means "not found (yet)", e.g. a receipt for a pending transaction
+  if (result === null || result === undefined || !mayBeImmutable(method, params)) return false
+
+  const block = getDataBlock(method, params, result)
+  if (block === null) return CHAIN_CONSTANT_METHODS.includes(method)
+
+  return finalizedBlock !== null && block <= finalizedBlock
+}
+
+/**
+ * Purge cached block-by-number entries for a height, after a reorg replaced it. Cache keys
+ * normalize block parameters, so these keys cover every spelling of the height. Calls that
+ * also take other parameters (e.g. a transaction index) cannot be listed and are not purged.
+ * The Cache API only reaches the local colo: other colos keep their copies until the TTL
+ * expires, which for an unfinalized block is UNFINALIZED_TTL.
+ */
+export async function purgeBlockFromCache(chain: string, block: number): Promise<void> {
+  const tag = `0x${block.toString(16)}`
+  const requests = [
+    { method: 'eth_getBlockByNumber', params: [tag, false] },
+    { method: 'eth_getBlockByNumber', params: [tag, true] },
+    { method: 'eth_getBlockTransactionCountByNumber', params: [tag] },
+    { method: 'eth_getUncleCountByBlockNumber', params: [tag] },
+    { method: 'eth_getBlockReceipts', params: [tag] }
+  ]
+
+  await Promise.all(requests.map(async (body) => caches.default.delete(await calculateCacheKey(chain, body))))
+}
+
 /**
  * Generate a unique cache key from chain and request body.
  * Uses SHA-256 hash of the full request for uniqueness.
@@ -203,10 +382,11 @@ export function getCacheTtl(method: string, params: any[]): number {
 // biome-ignore lint/suspicious/noExplicitAny: body structure varies
 export async function calculateCacheKey(chain: string, body: any): Promise<string> {
   // Normalize body for consistent hashing
-  // We only care about method and params, not id or jsonrpc version
+  // We only care about method and params, not id or jsonrpc version, and block
+  // parameters count the same however they are spelled
   const normalizedBody = {
     method: body.method,
-    params: body.params || []
+    params: normalizeBlockParams(body.method, body.params || [])
   }
 
   const bodyString = JSON.stringify(normalizedBody)
@@ -222,11 +402,43 @@ export async function calculateCacheKey(chain: string, body: any): Promise<strin
 
 /**
  * Retrieve a cached response if available.
+ * With a persistent tier, an edge miss falls through to it and a hit there is promoted to the edge.
  */
-export async function getCachedResponse(keyUrl: string): Promise<Response | null> {
+export async function getCachedResponse(
+  keyUrl: string,
+  tier: PersistentCache | null = null,
+  ctx?: Pick<ExecutionContext, 'waitUntil'>
+): Promise<Response | null> {
   const cache = caches.default
   const response = await cache.match(keyUrl)
-  return response || null
+  if (response || !tier) return response || null
+
+  // The tier is an optimization, an unreachable store counts as a miss
+  const body = await tier.get(getStorageKey(keyUrl)).catch(() => null)
+  if (body === null) return null
+
+  if (ctx) await cacheResponse(keyUrl, createCachedBody(body), PROMOTED_TTL, ctx)
+  return createCachedBody(body)
+}
+
+/**
+ * Store an immutable reply body in the persistent tier
+ */
+export async function persistResponse(keyUrl: string, body: string, tier: PersistentCache): Promise<void> {
+  try {
+    await tier.put(getStorageKey(keyUrl), body)
+  } catch (e) {
+    console.error('Failed to write persistent cache', e)
+  }
+}
+
+// The edge key is a URL, the tier is keyed by "<chain>/<hash>"
+function getStorageKey(keyUrl: string): string {
+  return new URL(keyUrl).pathname.slice(1)
+}
+
+function createCachedBody(body: string): Response {
+  return new Response(body, { headers: { 'Content-Type': 'application/json' } })
 }
 
 /**
@@ -237,7 +449,7 @@ export async function cacheResponse(
   keyUrl: string,
   response: Response,
   ttl: number,
-  ctx: ExecutionContext
+  ctx: Pick<ExecutionContext, 'waitUntil'>
 ): Promise<void> {
   if (ttl <= 0) return
 
@@ -1 +1,24 @@
-export { cacheResponse, calculateCacheKey, getCacheCategory, getCachedResponse, getCacheTtl } from './cache'
+export {
+  cacheResponse,
+  calculateCacheKey,
+  FINALIZED_HEADER,
+  getCacheCategory,
+  getCachedResponse,
+  getCacheTtl,
+  getFinalityTtl,
+  getMethodCost,
+  isImmutableResult,
+  mayBeImmutable,
+  persistResponse,
+  purgeBlockFromCache
+} from './cache'
+export { getPersistentCache, KvCache, type PersistentCache } from './persistent'
+export {
+  BLOCK_TAGS_HEADER,
+  type BlockTags,
+  formatBlockTags,
+  getRequestBlock,
+  LATEST_MAX_AGE_MS,
+  recordBlockTags,
+  resolveBlockTags
+} from './tags'
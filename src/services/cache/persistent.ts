@@ -0,0 +1,39 @@
+/**
+ * Persistent Cache Tier
+ *
+ * The edge cache is per colo and evicts quickly. Replies that can never change (see
+ * isImmutableResult) are also written to a durable, global store, which getCachedResponse
+ * falls back to on an edge miss. Hits there are promoted back to the edge.
+ *
+ * The store sits behind PersistentCache, so it can move off KV without touching callers.
+ */
+
+// Immutable entries still expire eventually, which bounds storage for rarely read data
+const PERSISTENT_TTL = 30 * 24 * 60 * 60
+
+export interface PersistentCache {
+  get(key: string): Promise<string | null>
+  put(key: string, body: string): Promise<void>
+}
+
+/**
+ * Persistent tier on Workers KV: eventually consistent, which is fine for data that never changes
+ */
+export class KvCache implements PersistentCache {
+  constructor(private readonly kv: KVNamespace) {}
+
+  get(key: string): Promise<string | null> {
+    return this.kv.get(key)
+  }
+
+  put(key: string, body: string): Promise<void> {
+    return this.kv.put(key, body, { expirationTtl: PERSISTENT_TTL })
+  }
+}
+
+/**
+ * The configured persistent tier, or null when the deployment has none
+ */
+export function getPersistentCache(env: Env): PersistentCache | null {
+  return env.CACHE_KV ? new KvCache(env.CACHE_KV) : null
+}
@@ -0,0 +1,185 @@
+/**
+ * Block Tag Resolution
+ *
+ * `latest`, `safe` and `finalized` are rewritten to the block numbers ChainDO last reported,
+ * before the cache key is built and the request is forwarded. Caching is then exact per
+ * block, and shared between callers using a tag and callers using the number.
+ *
+ * ChainDO reports the tags in BLOCK_TAGS_HEADER on every RPC response. Each isolate keeps
+ * the last report per chain and only resolves while it is fresh, otherwise the tag is
+ * forwarded as is.
+ */
+
+// Response header through which ChainDO reports the current block tags
+export const BLOCK_TAGS_HEADER = 'X-NullRPC-Block-Tags'
+
+// ChainDO only reports `latest` within this long of seeing it, and the isolate only uses it
+// for this long, so a resolved read is no staler than the 3s TTL on `latest` it replaces
+export const LATEST_MAX_AGE_MS = 1500
+
+// safe and finalized move slowly, ChainDO refreshes them with every head probe
+const FINALIZED_MAX_AGE_MS = 30_000
+
+export interface BlockTags {
+  latest: number | null
+  safe: number | null
+  finalized: number | null
+}
+
+// Last report per chain, per isolate
+const KNOWN_TAGS = new Map<string, BlockTags & { receivedAt: number }>()
+
+/**
+ * Serialize tags for BLOCK_TAGS_HEADER, e.g. "latest=21000000;safe=20999968;finalized=20999936"
+ */
+export function formatBlockTags(tags: BlockTags): string {
+  return Object.entries(tags)
+    .filter(([, block]) => block !== null)
+    .map(([tag, block]) => `${tag}=${block}`)
+    .join(';')
+}
+
+/**
+ * Remember the tags ChainDO reported on a response
+ */
+export function recordBlockTags(chain: string, headers: Headers): void {
+  const value = headers.get(BLOCK_TAGS_HEADER)
+  if (!value) return
+
+  const tags: BlockTags & { receivedAt: number } = {
+    finalized: null,
+    latest: null,
+    receivedAt: Date.now(),
+    safe: null
+  }
+  for (const pair of value.split(';')) {
+    const [tag, block] = pair.split('=')
+    if (tag === 'latest' || tag === 'safe' || tag === 'finalized') {
+      const parsed = Number.parseInt(block, 10)
+      if (Number.isSafeInteger(parsed)) tags[tag] = parsed
+    }
+  }
+
+  KNOWN_TAGS.set(chain, tags)
+}
+
+function getFreshTag(chain: string, tag: unknown, now: number): number | null {
+  const tags = KNOWN_TAGS.get(chain)
+  if (!tags) return null
+
+  const age = now - tags.receivedAt
+  if (tag === 'latest') return age <= LATEST_MAX_AGE_MS ? tags.latest : null
+  if (tag === 'safe' || tag === 'finalized') return age <= FINALIZED_MAX_AGE_MS ? tags[tag] : null
+  return null
+}
+
+/**
+ * Replace resolvable block tags in a request's params with block numbers.
+ * Returns the new params, or null when nothing was resolved.
+ */
+export function resolveBlockTags(chain: string, method: string, params: unknown[], now = Date.now()): unknown[] | null {
+  if (method === 'eth_getLogs') {
+    const filter = params[0] as { fromBlock?: unknown; toBlock?: unknown; blockHash?: unknown } | undefined
+    if (!filter || typeof filter !== 'object' || filter.blockHash) return null
+
+    // An omitted bound means latest
+    const fromBlock = getFreshTag(chain, filter.fromBlock ?? 'latest', now)
+    const toBlock = getFreshTag(chain, filter.toBlock ?? 'latest', now)
+    if (fromBlock === null && toBlock === null) return null
+
+    const resolved = { ...filter }
+    if (fromBlock !== null) resolved.fromBlock = toHex(fromBlock)
+    if (toBlock !== null) resolved.toBlock = toHex(toBlock)
+    return [resolved, ...params.slice(1)]
+  }
+
+  const index = getBlockParamIndex(method)
+  if (index === null || index >= params.length) return null
+
+  const block = getFreshTag(chain, params[index], now)
+  if (block === null) return null
+
+  const resolved = [...params]
+  resolved[index] = toHex(block)
+  return resolved
+}
+
+/**
+ * Block number a request is pinned to, if its block parameter is a number
+ */
+export function getRequestBlock(method: string, params: unknown[]): number | null {
+  const tag =
+    method === 'eth_getLogs'
+      ? (params[0] as { toBlock?: unknown } | undefined)?.toBlock
+      : params[getBlockParamIndex(method) ?? params.length]
+
+  if (typeof tag !== 'string' || !tag.startsWith('0x')) return null
+  const block = Number.parseInt(tag, 16)
+  return Number.isSafeInteger(block) ? block : null
+}
+
+/**
+ * Params with every block parameter spelled one way (shortest lowercase hex, lowercase tags)
+ * and eth_getBlockByNumber's transaction flag as a boolean, so that all spellings of a request
+ * share one cache key
+ */
+export function normalizeBlockParams(method: string, params: unknown[]): unknown[] {
+  if (method === 'eth_getLogs') {
+    const filter = params[0] as { fromBlock?: unknown; toBlock?: unknown } | undefined
+    if (!filter || typeof filter !== 'object') return params
+
+    const normalized = { ...filter }
+    if (filter.fromBlock !== undefined) normalized.fromBlock = normalizeBlock(filter.fromBlock)
+    if (filter.toBlock !== undefined) normalized.toBlock = normalizeBlock(filter.toBlock)
+    return [normalized, ...params.slice(1)]
+  }
+
+  const index = getBlockParamIndex(method)
+  if (index === null || index >= params.length) return params
+
+  const normalized = [...params]
+  normalized[index] = normalizeBlock(params[index])
+  if (method === 'eth_getBlockByNumber') normalized[1] = params[1] === true
+  return normalized
+}
+
+/**
+ * Block numbers as shortest hex, tags in lowercase. Anything else (hashes, block objects) is left as is.
+ */
+function normalizeBlock(tag: unknown): unknown {
+  if (typeof tag !== 'string') return tag
+
+  const lower = tag.toLowerCase()
+  if (!lower.startsWith('0x')) return lower
+  if (!/^0x[0-9a-f]+$/.test(lower)) return tag
+
+  const block = Number.parseInt(lower, 16)
+  return Number.isSafeInteger(block) ? toHex(block) : tag
+}
+
+/**
+ * Position of the block parameter, for cacheable methods that take one
+ */
+function getBlockParamIndex(method: string): number | null {
+  switch (method) {
+    case 'eth_getBlockByNumber':
+    case 'eth_getBlockReceipts':
+    case 'eth_getBlockTransactionCountByNumber':
+    case 'eth_getTransactionByBlockNumberAndIndex':
+    case 'eth_getUncleCountByBlockNumber':
+      return 0
+    case 'eth_call':
+    case 'eth_getBalance':
+    case 'eth_getCode':
+      return 1
+    case 'eth_getProof':
+    case 'eth_getStorageAt':
+      return 2
+    default:
+      return null
+  }
+}
+
+function toHex(block: number): string {
+  return `0x${block.toString(16)}`
+}
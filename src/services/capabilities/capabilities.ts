@@ -0,0 +1,275 @@
+/**
+ * Node Capabilities
+ *
+ * What a public node can serve beyond the basics, probed by the cron sync and stored per node:
+ * - client: Client name from web3_clientVersion (e.g. geth, erigon, reth)
+ * - namespaces: Optional namespaces (debug, trace, txpool) the node did not refuse
+ * - blockReceipts: Whether it serves eth_getBlockReceipts
+ * - maxBatch: Largest batch it answered in full, 0 if it refuses batches
+ * - maxLogsRange: Widest eth_getLogs range, in blocks, it answered
+ * - latencyMs: Median round trip of eth_blockNumber during the probe
+ * - probedAt: When the probe ran, in unix seconds. Nodes are probed again once it is
+ *   CAPABILITIES_MAX_AGE_S old.
+ *
+ * Independent probes run side by side, the batch and eth_getLogs ladders step up one size at a
+ * time and stop at the first size that fails. Only a size the node turns down is stored as its
+ * limit, a rate limit or outage keeps the largest size accepted so far (or null).
+ *
+ * Only an explicit refusal counts against a node. Probes that time out or fail otherwise leave
+ * the capability unknown (null, or supported for namespaces), and unknown never keeps a node
+ * from being routed to.
+ */
+
+import { getFixedLogsRange } from '../logs'
+
+export interface NodeCapabilities {
+  client: string | null
+  namespaces: string[]
+  blockReceipts: boolean
+  maxBatch: number | null
+  maxLogsRange: number | null
+  latencyMs: number | null
+  probedAt: number
+}
+
+/**
+ * What a request needs from the node it is sent to
+ */
+export interface NodeRequirement {
+  methods: string[]
+  // Calls in the request, more than one is a batch
+  calls: number
+  // Blocks spanned by a fixed eth_getLogs range, 0 for none
+  logsRange: number
+}
+
+// Namespaces that many public nodes do not enable, probed one method each
+export const PROBED_NAMESPACES = ['debug', 'trace', 'txpool']
+
+// Batch sizes tried, smallest first. The largest matches the default batch limit.
+const BATCH_PROBE_SIZES = [10, 50, 100]
+
+// eth_getLogs ranges tried, smallest first
+const LOGS_PROBE_RANGES = [100, 1_000, 2_000, 5_000, 10_000]
+
+// Round trips timed for the baseline latency
+const LATENCY_SAMPLES = 3
+
+// Stored capabilities older than this are probed again
+const CAPABILITIES_MAX_AGE_S = 24 * 60 * 60
+
+const PROBE_TIMEOUT_MS = 5000
+
+const ZERO_HASH = `0x${'0'.repeat(64)}`
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`
+
+// Errors that mean the method is not served, as opposed to failing on the probe's arguments
+const REFUSAL_PATTERN =
+  /not (supported|available|allowed|enabled|whitelisted)|unsupported|does not exist|method .*not found|disabled/i
+
+// Errors that mean a batch or eth_getLogs range is too large, as opposed to rate limits and outages
+const LIMIT_PATTERN =
+  /batch (size|limit|too)|too (large|big|wide)|block range|more than \d+ (results|logs|blocks|requests)|response size|exceeds? (the )?(max|limit)/i
+
+interface ProbeReply {
+  result?: unknown
+  error?: { code?: number; message?: string }
+}
+
+/**
+ * Probe a node that already passed validation. Never throws.
+ */
+export async function probeCapabilities(url: string): Promise<NodeCapabilities> {
+  const probedAt = Math.floor(Date.now() / 1000)
+
+  // The logs ladder needs the head, everything else is independent
+  const [{ head, latencyMs }, version, refusals, receipts, maxBatch] = await Promise.all([
+    probeLatency(url),
+    probe(url, { id: 1, jsonrpc: '2.0', method: 'web3_clientVersion', params: [] }) as Promise<ProbeReply | null>,
+    Promise.all(PROBED_NAMESPACES.map(async (namespace) => isRefused(await probe(url, getNamespaceProbe(namespace))))),
+    probe(url, { id: 1, jsonrpc: '2.0', method: 'eth_getBlockReceipts', params: ['latest'] }),
+    probeMaxBatch(url)
+  ])
+  const maxLogsRange = head === null ? null : await probeMaxLogsRange(url, head)
+
+  return {
+    blockReceipts: !isRefused(receipts),
+    client: typeof version?.result === 'string' ? version.result.split('/')[0].toLowerCase() || null : null,
+    latencyMs,
+    maxBatch,
+    maxLogsRange,
+    namespaces: PROBED_NAMESPACES.filter((_, i) => !refusals[i]),
+    probedAt
+  }
+}
+
+/**
+ * Whether stored capabilities are missing or old enough to probe the node again
+ */
+export function isProbeStale(capabilities: NodeCapabilities | null | undefined, now = Date.now()): boolean {
+  if (!capabilities?.probedAt) return true
+  return Math.floor(now / 1000) - capabilities.probedAt > CAPABILITIES_MAX_AGE_S
+}
+
+/**
+ * The requirement of a single call or a batch of calls
+ */
+export function getNodeRequirement(calls: { method: string; params: unknown[] }[]): NodeRequirement {
+  let logsRange = 0
+  for (const { method, params } of calls) {
+    const range = getFixedLogsRange(method, params)
+    if (range) logsRange = Math.max(logsRange, range.to - range.from + 1)
+  }
+
+  return { calls: calls.length, logsRange, methods: calls.map((call) => call.method) }
+}
+
+/**
+ * Whether a node may be sent a request. Nodes without capabilities have not been probed
+ * (manual upstreams, or stored before probing) and may be sent anything.
+ */
+export function canServe(capabilities: NodeCapabilities | undefined, requirement: NodeRequirement): boolean {
+  if (!capabilities) return true
+
+  const { blockReceipts, maxBatch, maxLogsRange, namespaces } = capabilities
+  if (requirement.calls > 1 && maxBatch !== null && requirement.calls > maxBatch) return false
+  if (requirement.logsRange > 0 && maxLogsRange !== null && requirement.logsRange > maxLogsRange) return false
+
+  return requirement.methods.every((method) => {
+    if (method === 'eth_getBlockReceipts') return blockReceipts
+
+    const namespace = method.slice(0, method.indexOf('_'))
+    return !PROBED_NAMESPACES.includes(namespace) || namespaces.includes(namespace)
+  })
+}
+
+/**
+ * Median of LATENCY_SAMPLES eth_blockNumber round trips, timed one after the other, and the
+ * head the node reported
+ */
+async function probeLatency(url: string): Promise<{ head: number | null; latencyMs: number | null }> {
+  const latencies: number[] = []
+  let head: number | null = null
+
+  for (let i = 0; i < LATENCY_SAMPLES; i++) {
+    const startedAt = Date.now()
+    const reply = (await probe(url, {
+      id: 1,
+      jsonrpc: '2.0',
+      method: 'eth_blockNumber',
+      params: []
+    })) as ProbeReply | null
+    if (typeof reply?.result !== 'string') continue
+
+    latencies.push(Date.now() - startedAt)
+    head = Number.parseInt(reply.result, 16)
+  }
+
+  return {
+    head,
+    latencyMs: latencies.length > 0 ? latencies.sort((a, b) => a - b)[Math.floor(latencies.length / 2)] : null
+  }
+}
+
+function getNamespaceProbe(namespace: string): unknown {
+  switch (namespace) {
+    case 'debug':
+      return { id: 1, jsonrpc: '2.0', method: 'debug_traceTransaction', params: [ZERO_HASH] }
+    case 'trace':
+      return { id: 1, jsonrpc: '2.0', method: 'trace_transaction', params: [ZERO_HASH] }
+    default:
+      return { id: 1, jsonrpc: '2.0', method: 'txpool_status', params: [] }
+  }
+}
+
+/**
+ * Largest batch of eth_chainId calls answered in full. Null if the first size is neither answered
+ * nor turned down, e.g. when the node is rate limiting.
+ */
+async function probeMaxBatch(url: string): Promise<number | null> {
+  let accepted: number | null = null
+
+  for (const size of BATCH_PROBE_SIZES) {
+    const batch = Array.from({ length: size }, (_, i) => ({ id: i, jsonrpc: '2.0', method: 'eth_chainId', params: [] }))
+    const reply = await probe(url, batch)
+
+    if (Array.isArray(reply) && reply.length === size && reply.every((item) => item?.result !== undefined)) {
+      accepted = size
+      continue
+    }
+
+    // Only a size that is turned down ends the ladder as a refusal, other failures keep what was accepted
+    const limited = Array.isArray(reply) ? reply.length < size || reply.some(isLimitReached) : isLimitReached(reply)
+    return limited ? (accepted ?? 0) : accepted
+  }
+
+  return accepted
+}
+
+/**
+ * Widest eth_getLogs range ending at `head` the node answered. The filter matches no logs,
+ * so only the range can be refused. A range that times out ends the ladder, but is not stored
+ * as a limit on its own.
+ */
+async function probeMaxLogsRange(url: string, head: number): Promise<number | null> {
+  let accepted: number | null = null
+
+  for (const range of LOGS_PROBE_RANGES) {
+    const filter = {
+      address: ZERO_ADDRESS,
+      fromBlock: `0x${Math.max(0, head - range + 1).toString(16)}`,
+      toBlock: `0x${head.toString(16)}`
+    }
+    const reply = (await probe(url, {
+      id: 1,
+      jsonrpc: '2.0',
+      method: 'eth_getLogs',
+      params: [filter]
+    })) as ProbeReply | null
+
+    if (Array.isArray(reply?.result)) {
+      accepted = range
+      continue
+    }
+
+    return isLimitReached(reply) ? (accepted ?? 0) : accepted
+  }
+
+  return accepted
+}
+
+function isRefused(reply: unknown): boolean {
+  const error = (reply as ProbeReply | null)?.error
+  if (!error) return false
+  return error.code === -32601 || REFUSAL_PATTERN.test(error.message ?? '')
+}
+
+/**
+ * Whether a reply turns down the size of a probe, or the method altogether
+ */
+function isLimitReached(reply: unknown): boolean {
+  const error = (reply as ProbeReply | null)?.error
+  return isRefused(reply) || LIMIT_PATTERN.test(error?.message ?? '')
+}
+
+/**
+ * Send a probe and parse the reply, whatever the HTTP status. Null when there is no JSON answer.
+ */
+async function probe(url: string, body: unknown): Promise<unknown> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, {
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'POST',
+      signal: controller.signal
+    })
+    return await response.json()
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeout)
+  }
+}
@@ -0,0 +1,9 @@
+export {
+  canServe,
+  getNodeRequirement,
+  isProbeStale,
+  type NodeCapabilities,
+  type NodeRequirement,
+  PROBED_NAMESPACES,
+  probeCapabilities
+} from './capabilities'
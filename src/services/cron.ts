@@ -1,28 +1,61 @@
 /**
  * Cron service for fetching, validating, and storing public RPC nodes.
- * Runs every 10 minutes via Cloudflare Workers scheduled handler.
+ * Runs every hour via Cloudflare Workers scheduled handler.
+ *
+ * Synced chains, their MEV nodes and any upstreams not on chainlist come from the chain registry.
+ *
+ * Validation is incremental: each chain works through a snapshot of its URLs in slices, and the
+ * cursor and results so far are saved in sync_progress after every slice. A run checks at most
+ * VALIDATION_CHECKS_PER_RUN URLs per chain and stops starting slices at SYNC_TIME_BUDGET_MS, so a
+ * large chain is validated over several runs and a run that is cut off keeps what it finished.
+ * Nodes are stored once a pass over the snapshot is complete.
+ *
+ * Every valid node is also probed for what it can serve (see capabilities), which ChainDO
+ * uses to route each method only to nodes that support it. Nodes probed recently keep their
+ * capabilities until they are stale. The tracking and open source
+ * declarations from chainlist are kept per node as well, for the chain's privacy policy.
+ *
+ * Each check is recorded in the nodes and node_checks tables as it happens (see nodes).
+ *
+ * Stored node lists change slowly, so a bad run cannot empty a chain:
+ * - A stored node is removed only after REMOVAL_FAILURE_THRESHOLD failed checks in a row,
+ *   or once chainlist no longer lists it. New nodes are added after passing once.
+ * - A pass that would remove more than MAX_REMOVAL_RATIO of a chain's nodes is refused and logged.
+ *   It is kept, with the reason, until an operator forces it through or it is MAX_PASS_AGE_S old.
+ * - When chainlist cannot be fetched, the run stops and every chain keeps its last known nodes.
  */
 
+import { isProbeStale, type NodeCapabilities, probeCapabilities } from './capabilities'
+import { getNodeRecords, pruneNodeChecks, recordNodeChecks, setMevNodes } from './nodes'
+import { type NodePrivacy, parseTrackingLevel } from './privacy'
+import { type ChainRegistryEntry, getChainRegistry } from './registry'
+
 const CHAINLIST_API = 'https://chainlist.org/rpcs.json'
 
-// Whitelisted MEV protection nodes per chain
-const MEV_NODES: Record<string, string[]> = {
-  eth: ['https://eth.merkle.io', 'https://rpc.mevblocker.io/fullprivacy']
-}
+// Checks in flight across all chains. Workers keep six connections open per invocation,
+// more would only queue inside the runtime, and count against the check timeouts.
+const VALIDATION_CONCURRENCY = 6
 
-// Target chains with their expected chain IDs
-const TARGET_CHAINS: Record<string, number> = {
-  arbitrum: 42161,
-  base: 8453,
-  berachain: 80094,
-  bsc: 56,
-  eth: 1,
-  katana: 747474,
-  optimism: 10,
-  plasma: 9745,
-  polygon: 137,
-  unichain: 130
-}
+// Checks in flight per host, so providers listing many URLs are not hit all at once
+const VALIDATION_HOST_CONCURRENCY = 2
+
+// URLs validated between two saves of a chain's progress
+const VALIDATION_SLICE_SIZE = 12
+
+// URLs validated per chain and run, so one large chain cannot hold up the others
+const VALIDATION_CHECKS_PER_RUN = 60
+
+// No slices are started after this, leaving room below the scheduled handler's time limit
+const SYNC_TIME_BUDGET_MS = 10 * 60_000
+
+// A pass not finished within this time starts over from fresh chainlist URLs
+const MAX_PASS_AGE_S = 24 * 60 * 60
+
+// Failed checks in a row before a stored node is removed
+const REMOVAL_FAILURE_THRESHOLD = 3
+
+// Largest share of a chain's stored nodes a single pass may remove
+const MAX_REMOVAL_RATIO = 0.5
 
 interface ChainlistRpc {
   url: string
@@ -30,6 +63,51 @@ interface ChainlistRpc {
   isOpenSource?: boolean
 }
 
+/**
+ * A validation pass in progress, persisted per chain between runs
+ */
+interface SyncProgress {
+  urls: string[]
+  cursor: number
+  nodes: string[]
+  archiveNodes: string[]
+  capabilities: Record<string, NodeCapabilities>
+  startedAt: number
+  // Why the completed pass was not stored, null while it is in progress
+  refused: string | null
+}
+
+interface SyncProgressRow {
+  urls: string
+  cursor: number
+  nodes: string
+  archive_nodes: string
+  capabilities: string
+  started_at: number
+  refused: string | null
+}
+
+// What a run did for a chain: stored its nodes, saved progress for the next run, refused a
+// pass that would remove too many nodes, or none of these
+export type ChainSyncResult = 'stored' | 'pending' | 'refused' | 'failed'
+
+/**
+ * The node lists of a chain as last stored
+ */
+interface StoredNodes {
+  nodes: string[]
+  archiveNodes: string[]
+  wsNodes: string[]
+  capabilities: Record<string, NodeCapabilities>
+}
+
+interface StoredNodesRow {
+  nodes: string | null
+  archive_nodes: string | null
+  ws_nodes: string | null
+  node_capabilities: string | null
+}
+
 interface ChainlistEntry {
   name: string
   chain: string
@@ -54,9 +132,6 @@ async function fetchChainlist(): Promise<ChainlistEntry[]> {
   return response.json()
 }
 
-/**
- * Extract HTTP RPC URLs from a chainlist entry
- */
 /**
  * Extract HTTP RPC URLs from a chainlist entry
  */
@@ -84,8 +159,42 @@ function extractRpcUrls(entry: ChainlistEntry): string[] {
 }
 
 /**
- * Test if an RPC endpoint returns the expected chain ID
+ * Extract WebSocket RPC URLs from a chainlist entry
  */
+function extractWsUrls(entry: ChainlistEntry): string[] {
+  const urls = new Set<string>()
+
+  for (const rpc of entry.rpc) {
+    const url = typeof rpc === 'string' ? rpc : rpc.url
+
+    if (url.startsWith('wss://') && !url.includes('${')) {
+      urls.add(url.replace(/\/+$/, ''))
+    }
+  }
+
+  return Array.from(urls)
+}
+
+/**
+ * Privacy class of every RPC URL in a chainlist entry, HTTP and WebSocket,
+ * leaving out upstreams an operator configured for the chain
+ */
+function extractNodePrivacy(entry: ChainlistEntry, configured: string[]): Record<string, NodePrivacy> {
+  const privacy: Record<string, NodePrivacy> = {}
+
+  for (const rpc of entry.rpc) {
+    const { url, tracking, isOpenSource } = typeof rpc === 'string' ? { url: rpc } : rpc
+    if (url.includes('${')) continue
+
+    const cleanUrl = url.replace(/\/+$/, '')
+    if (configured.includes(cleanUrl)) continue
+
+    privacy[cleanUrl] = { openSource: isOpenSource === true, tracking: parseTrackingLevel(tracking) }
+  }
+
+  return privacy
+}
+
 /**
  * Test if an RPC endpoint returns the expected chain ID
  */
@@ -193,52 +302,284 @@ async function testBlockNumber(url: string): Promise<boolean> {
 }
 
 /**
- * Validate all RPC URLs for a chain and categorize as regular or archive nodes
- *
- * Implements STRICT SERIAL execution with robust error handling to prevent runtime crashes.
+ * Test if a WebSocket endpoint accepts connections and returns the expected chain ID.
+ * Workers open outbound WebSockets through fetch() with an https:// URL and an Upgrade header.
+ */
+async function testWsChainId(url: string, expectedChainId: number): Promise<boolean> {
+  let socket: WebSocket | null = null
+
+  try {
+    const response = await fetch(url.replace(/^wss:/, 'https:'), {
+      // biome-ignore lint/style/useNamingConvention: HTTP header
+      headers: { Upgrade: 'websocket', 'User-Agent': 'NullRPC/1.0' }
+    })
+
+    socket = response.webSocket
+    if (!socket) return false
+    socket.accept()
+
+    const ws = socket
+    const result = await new Promise<string | null>((resolve) => {
+      const timeout = setTimeout(() => resolve(null), 5000)
+
+      ws.addEventListener('message', (event) => {
+        clearTimeout(timeout)
+        try {
+          const data = JSON.parse(event.data as string) as { result?: string }
+          resolve(typeof data.result === 'string' ? data.result : null)
+        } catch {
+          resolve(null)
+        }
+      })
+      ws.addEventListener('close', () => {
+        clearTimeout(timeout)
+        resolve(null)
+      })
+
+      ws.send(JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'eth_chainId', params: [] }))
+    })
+
+    return result !== null && Number.parseInt(result, 16) === expectedChainId
+  } catch {
+    return false
+  } finally {
+    try {
+      socket?.close(1000)
+    } catch {
+      // Socket already closed
+    }
+  }
+}
+
+/**
+ * Validate WebSocket URLs for a chain. Only the chain ID is checked, subscriptions
+ * are verified lazily by ChainDO which fails over to another node on error.
+ */
+async function validateWsNodes(
+  db: D1Database,
+  slug: string,
+  wsUrls: string[],
+  expectedChainId: number,
+  queue: ValidationQueue
+): Promise<string[]> {
+  const results = await Promise.all(
+    wsUrls.map((url) =>
+      queue.run(url, () => {
+        console.log(`[Cron] Checking WebSocket: ${url}`)
+        return testWsChainId(url, expectedChainId)
+      })
+    )
+  )
+
+  await recordNodeChecks(
+    db,
+    slug,
+    wsUrls.map((url, i) => ({ archive: false, capabilities: null, ok: results[i], url, ws: true }))
+  )
+
+  return wsUrls.filter((_, i) => results[i])
+}
+
+/**
+ * Validate RPC URLs, categorize them as regular or archive nodes and probe the valid ones
+ * whose `known` capabilities are stale. Checks run through the queue, results keep the order of `rpcUrls`.
  */
 async function validateChainNodes(
   rpcUrls: string[],
-  expectedChainId: number
-): Promise<{ nodes: string[]; archiveNodes: string[] }> {
-  const nodes: string[] = []
-  const archiveNodes: string[] = []
+  expectedChainId: number,
+  queue: ValidationQueue,
+  known: Map<string, NodeCapabilities | null>
+): Promise<{ nodes: string[]; archiveNodes: string[]; capabilities: Record<string, NodeCapabilities> }> {
+  const results = await Promise.all(
+    rpcUrls.map((url) =>
+      queue.run(url, async () => {
+        const validity = await validateNode(url, expectedChainId)
+        if (validity === 'invalid') return { capabilities: null, validity }
+
+        const stored = known.get(url)
+        return { capabilities: isProbeStale(stored) ? await probeCapabilities(url) : stored, validity }
+      })
+    )
+  )
+
+  const capabilities: Record<string, NodeCapabilities> = {}
+  results.forEach((result, i) => {
+    if (result.capabilities) capabilities[rpcUrls[i]] = result.capabilities
+  })
+
+  return {
+    archiveNodes: rpcUrls.filter((_, i) => results[i].validity === 'archive'),
+    capabilities,
+    nodes: rpcUrls.filter((_, i) => results[i].validity !== 'invalid')
+  }
+}
+
+/**
+ * Check one RPC URL, with robust error handling to prevent runtime crashes
+ */
+async function validateNode(url: string, expectedChainId: number): Promise<'invalid' | 'full' | 'archive'> {
+  console.log(`[Cron] Checking ${url}`)
+
+  try {
+    // 1. Check Chain ID first
+    const isValid = await testChainId(url, expectedChainId)
+    if (!isValid) return 'invalid'
+
+    // 2. Check basic functionality (eth_blockNumber)
+    // Ensures we don't pick up nodes that only allow metadata calls (like Ankr public)
+    const isFunctional = await testBlockNumber(url)
+    if (!isFunctional) {
+      console.warn(`[Cron] Node ${url} has valid ChainID but failed block check (likely restricted)`)
+      return 'invalid'
+    }
+
+    // 3. Only check Archive capability if fully valid
+    return (await testArchiveCapability(url)) ? 'archive' : 'full'
+  } catch (_) {
+    // Ignore any other unexpected errors, the node is just not used
+    return 'invalid'
+  }
+}
 
-  // Serial processing (1 at a time)
-  for (let i = 0; i < rpcUrls.length; i++) {
-    const url = rpcUrls[i]
-    console.log(`[Cron] Checking ${i + 1}/${rpcUrls.length}: ${url}`)
+/**
+ * Runs checks with at most VALIDATION_CONCURRENCY in flight, and at most
+ * VALIDATION_HOST_CONCURRENCY per host. Waiting checks start in the order they were queued,
+ * skipping those whose host is busy.
+ */
+class ValidationQueue {
+  private active = 0
+  private hosts = new Map<string, number>()
+  private waiting: { host: string; start: () => void }[] = []
+
+  async run<T>(url: string, check: () => Promise<T>): Promise<T> {
+    const host = getHost(url)
+    await new Promise<void>((start) => {
+      this.waiting.push({ host, start })
+      this.startWaiting()
+    })
 
     try {
-      // 1. Check Chain ID first
-      const isValid = await testChainId(url, expectedChainId)
-
-      if (isValid) {
-        // 2. Check basic functionality (eth_blockNumber)
-        // Ensures we don't pick up nodes that only allow metadata calls (like Ankr public)
-        const isFunctional = await testBlockNumber(url)
-
-        if (isFunctional) {
-          nodes.push(url)
-
-          // 3. Only check Archive capability if fully valid
-          const isArchive = await testArchiveCapability(url)
-          if (isArchive) {
-            archiveNodes.push(url)
-          }
-        } else {
-          console.warn(`[Cron] Node ${url} has valid ChainID but failed block check (likely restricted)`)
-        }
+      return await check()
+    } finally {
+      this.active--
+      this.hosts.set(host, (this.hosts.get(host) ?? 1) - 1)
+      this.startWaiting()
+    }
+  }
+
+  private startWaiting(): void {
+    for (let i = 0; i < this.waiting.length && this.active < VALIDATION_CONCURRENCY; ) {
+      const { host, start } = this.waiting[i]
+      const running = this.hosts.get(host) ?? 0
+
+      if (running >= VALIDATION_HOST_CONCURRENCY) {
+        i++
+        continue
       }
-    } catch (_) {
-      // Ignore any other unexpected errors and continue to next node
+
+      this.waiting.splice(i, 1)
+      this.active++
+      this.hosts.set(host, running + 1)
+      start()
     }
+  }
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+/**
+ * The pass in progress for a chain, if any
+ */
+async function loadSyncProgress(db: D1Database, slug: string): Promise<SyncProgress | null> {
+  const row = await db
+    .prepare(
+      'SELECT urls, cursor, nodes, archive_nodes, capabilities, started_at, refused FROM sync_progress WHERE chain = ?'
+    )
+    .bind(slug)
+    .first<SyncProgressRow>()
+
+  if (!row) return null
+
+  return {
+    archiveNodes: JSON.parse(row.archive_nodes),
+    capabilities: JSON.parse(row.capabilities),
+    cursor: row.cursor,
+    nodes: JSON.parse(row.nodes),
+    refused: row.refused,
+    startedAt: row.started_at,
+    urls: JSON.parse(row.urls)
+  }
+}
 
-    // Small breathe to ensure socket cleanup
-    await new Promise((resolve) => setTimeout(resolve, 50))
+async function saveSyncProgress(db: D1Database, slug: string, progress: SyncProgress): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO sync_progress (chain, urls, cursor, nodes, archive_nodes, capabilities, started_at, refused, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, unixepoch())
+       ON CONFLICT(chain) DO UPDATE SET
+         urls = excluded.urls,
+         cursor = excluded.cursor,
+         nodes = excluded.nodes,
+         archive_nodes = excluded.archive_nodes,
+         capabilities = excluded.capabilities,
+         started_at = excluded.started_at,
+         refused = excluded.refused,
+         updated_at = unixepoch()`
+    )
+    .bind(
+      slug,
+      JSON.stringify(progress.urls),
+      progress.cursor,
+      JSON.stringify(progress.nodes),
+      JSON.stringify(progress.archiveNodes),
+      JSON.stringify(progress.capabilities),
+      progress.startedAt,
+      progress.refused
+    )
+    .run()
+}
+
+async function clearSyncProgress(db: D1Database, slug: string): Promise<void> {
+  await db.prepare('DELETE FROM sync_progress WHERE chain = ?').bind(slug).run()
+}
+
+/**
+ * The node lists currently stored for a chain, empty if it has none yet
+ */
+async function loadStoredNodes(db: D1Database, slug: string): Promise<StoredNodes> {
+  const row = await db
+    .prepare('SELECT nodes, archive_nodes, ws_nodes, node_capabilities FROM chains WHERE slug = ?')
+    .bind(slug)
+    .first<StoredNodesRow>()
+
+  return {
+    archiveNodes: JSON.parse(row?.archive_nodes || '[]'),
+    capabilities: JSON.parse(row?.node_capabilities || '{}'),
+    nodes: JSON.parse(row?.nodes || '[]'),
+    wsNodes: JSON.parse(row?.ws_nodes || '[]')
   }
+}
 
-  return { archiveNodes, nodes }
+/**
+ * A node list after a pass: the nodes that passed, plus the stored nodes that are still
+ * listed and have not failed REMOVAL_FAILURE_THRESHOLD checks in a row
+ */
+function mergeNodeList(
+  stored: string[],
+  passed: string[],
+  listed: Set<string>,
+  failures: Map<string, number>
+): string[] {
+  const kept = stored.filter(
+    (url) => passed.includes(url) || (listed.has(url) && (failures.get(url) ?? 0) < REMOVAL_FAILURE_THRESHOLD)
+  )
+  return [...new Set([...kept, ...passed])]
 }
 
 /**
@@ -252,16 +593,22 @@ async function storeChainData(
   chainId: number,
   nodes: string[],
   archiveNodes: string[],
-  mevNodes: string[]
+  mevNodes: string[],
+  wsNodes: string[],
+  capabilities: Record<string, NodeCapabilities>,
+  privacy: Record<string, NodePrivacy>
 ): Promise<void> {
   const nodesJson = JSON.stringify(nodes)
   const archiveNodesJson = JSON.stringify(archiveNodes)
   const mevNodesJson = JSON.stringify(mevNodes)
+  const wsNodesJson = JSON.stringify(wsNodes)
+  const capabilitiesJson = JSON.stringify(capabilities)
+  const privacyJson = JSON.stringify(privacy)
 
   await db
     .prepare(
-      `INSERT INTO chains (slug, name, icon, chainId, nodes, archive_nodes, mev_protection, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, unixepoch())
+      `INSERT INTO chains (slug, name, icon, chainId, nodes, archive_nodes, mev_protection, ws_nodes, node_capabilities, node_privacy, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch())
        ON CONFLICT(slug) DO UPDATE SET
          name = excluded.name,
          icon = excluded.icon,
@@ -269,21 +616,51 @@ async function storeChainData(
          nodes = excluded.nodes,
          archive_nodes = excluded.archive_nodes,
          mev_protection = excluded.mev_protection,
+         ws_nodes = excluded.ws_nodes,
+         node_capabilities = excluded.node_capabilities,
+         node_privacy = excluded.node_privacy,
          updated_at = unixepoch()`
     )
-    .bind(slug, name, icon || null, chainId, nodesJson, archiveNodesJson, mevNodesJson)
+    .bind(
+      slug,
+      name,
+      icon || null,
+      chainId,
+      nodesJson,
+      archiveNodesJson,
+      mevNodesJson,
+      wsNodesJson,
+      capabilitiesJson,
+      privacyJson
+    )
     .run()
 }
 
 /**
- * Main sync function - validates and stores chains defined in TARGET_CHAINS
+ * Main sync function - validates and stores the chains enabled in the registry,
+ * or only the given one (e.g. when an operator triggers a sync). Chains are validated side by
+ * side through one queue. A sync of a single chain runs inside the operator's request and checks
+ * one slice, a pass that needs more is finished by the next cron runs. With `force`, a pass is
+ * stored even if it removes more nodes than MAX_REMOVAL_RATIO allows.
+ * Returns what the run did for each chain it got to.
  */
-export async function syncPublicNodes(env: Env): Promise<void> {
+export async function syncPublicNodes(
+  env: Env,
+  only: string | null = null,
+  force = false
+): Promise<Record<string, ChainSyncResult>> {
   console.log('[Cron] Starting public node sync...')
 
   try {
-    // Fetch all chains from chainlist
-    const chains = await fetchChainlist()
+    // Fetch all chains from chainlist. Without it nothing is validated, and every chain keeps
+    // the nodes it has: an outage must not look like every node being delisted.
+    let chains: ChainlistEntry[]
+    try {
+      chains = await fetchChainlist()
+    } catch (e) {
+      console.error('[Cron] Chainlist unavailable, keeping the last known nodes:', e)
+      return {}
+    }
     console.log(`[Cron] Fetched ${chains.length} chains from chainlist`)
 
     // Create a map of chainId -> chainEntry for quick lookup
@@ -292,54 +669,189 @@ export async function syncPublicNodes(env: Env): Promise<void> {
       chainsByChainId.set(chain.chainId, chain)
     }
 
-    let processed = 0
-    let failed = 0
-
-    // Process only chains defined in TARGET_CHAINS
-    for (const [slug, expectedChainId] of Object.entries(TARGET_CHAINS)) {
-      const chainEntry = chainsByChainId.get(expectedChainId)
-
-      if (!chainEntry) {
-        console.log(`[Cron] ${slug}: Chain ID ${expectedChainId} not found in chainlist`)
-        failed++
-        continue
-      }
+    // Process only chains enabled in the registry
+    const registry = (await getChainRegistry(env)).filter(
+      (chain) => chain.enabled && (only === null || chain.slug === only)
+    )
 
-      const rpcUrls = extractRpcUrls(chainEntry)
-      console.log(`[Cron] ${slug}: Testing ${rpcUrls.length} RPCs...`)
+    const queue = new ValidationQueue()
+    const deadline = Date.now() + SYNC_TIME_BUDGET_MS
+    const maxChecks = only === null ? VALIDATION_CHECKS_PER_RUN : VALIDATION_SLICE_SIZE
+
+    const results: ChainSyncResult[] = await Promise.all(
+      registry.map(async (chain) => {
+        try {
+          return await syncChain(env, chain, chainsByChainId.get(chain.chainId), queue, deadline, maxChecks, force)
+        } catch (e) {
+          console.error(`[Cron] Error processing ${chain.slug}:`, e)
+          return 'failed'
+        }
+      })
+    )
 
-      if (rpcUrls.length === 0) {
-        console.log(`[Cron] ${slug}: No RPC URLs found`)
-        failed++
-        continue
-      }
+    await pruneNodeChecks(env.DB)
 
-      try {
-        // Validate nodes with full testing
-        const { nodes, archiveNodes } = await validateChainNodes(rpcUrls, expectedChainId)
-
-        if (nodes.length > 0) {
-          // Get whitelisted MEV nodes for this chain (if any)
-          const mevNodes = MEV_NODES[slug] || []
-
-          // Store in D1
-          const icon = (chainEntry as { icon?: string }).icon
-          await storeChainData(env.DB, slug, chainEntry.name, icon, expectedChainId, nodes, archiveNodes, mevNodes)
-          processed++
-          console.log(`[Cron] ${slug}: ${nodes.length} valid, ${archiveNodes.length} archive`)
-        } else {
-          console.log(`[Cron] ${slug}: No valid nodes found`)
-          failed++
-        }
-      } catch (e) {
-        console.error(`[Cron] Error processing ${slug}:`, e)
-        failed++
-      }
-    }
+    const count = (result: ChainSyncResult) => results.filter((r) => r === result).length
+    console.log(
+      `[Cron] Sync complete: ${count('stored')} chains stored, ${count('pending')} in progress, ${count('refused')} refused, ${count('failed')} failed`
+    )
 
-    console.log(`[Cron] Sync complete: ${processed} chains stored, ${failed} failed`)
+    return Object.fromEntries(registry.map((chain, i) => [chain.slug, results[i]]))
   } catch (error) {
     console.error('[Cron] Public node sync failed:', error)
     throw error
   }
 }
+
+/**
+ * Advance a chain's validation pass. Once the pass is complete, its results are merged into
+ * the stored nodes and stored, unless they would remove too many. A refused pass is kept for
+ * a forced sync to apply, and until then later runs report it instead of validating again.
+ */
+async function syncChain(
+  env: Env,
+  { slug, chainId: expectedChainId, name, staticNodes, mevNodes }: ChainRegistryEntry,
+  chainEntry: ChainlistEntry | undefined,
+  queue: ValidationQueue,
+  deadline: number,
+  maxChecks: number,
+  force: boolean
+): Promise<ChainSyncResult> {
+  // Chains missing from chainlist can still be served from their static nodes
+  if (!chainEntry && staticNodes.length === 0) {
+    console.log(`[Cron] ${slug}: Chain ID ${expectedChainId} not found in chainlist`)
+    return 'failed'
+  }
+
+  let progress = await loadSyncProgress(env.DB, slug)
+
+  // Start a pass from the current URLs, which it keeps until it is done
+  const now = Math.floor(Date.now() / 1000)
+  if (!progress || now - progress.startedAt > MAX_PASS_AGE_S) {
+    const rpcUrls = [...new Set([...staticNodes, ...(chainEntry ? extractRpcUrls(chainEntry) : [])])]
+    if (rpcUrls.length === 0) {
+      console.log(`[Cron] ${slug}: No RPC URLs found`)
+      return 'failed'
+    }
+
+    progress = {
+      archiveNodes: [],
+      capabilities: {},
+      cursor: 0,
+      nodes: [],
+      refused: null,
+      startedAt: now,
+      urls: rpcUrls
+    }
+    console.log(`[Cron] ${slug}: Starting a pass over ${rpcUrls.length} RPCs`)
+  }
+
+  if (progress.refused && !force) {
+    console.warn(`[Cron] ${slug}: Pass refused (${progress.refused}), waiting for a forced sync`)
+    return 'refused'
+  }
+
+  // Capabilities recorded by earlier checks, reused until they are stale
+  const known = new Map((await getNodeRecords(env.DB, slug)).map((record) => [record.url, record.capabilities]))
+
+  let checked = 0
+  while (progress.cursor < progress.urls.length && checked < maxChecks && Date.now() < deadline) {
+    const slice = progress.urls.slice(
+      progress.cursor,
+      progress.cursor + Math.min(VALIDATION_SLICE_SIZE, maxChecks - checked)
+    )
+    const { nodes, archiveNodes, capabilities } = await validateChainNodes(slice, expectedChainId, queue, known)
+    await recordNodeChecks(
+      env.DB,
+      slug,
+      slice.map((url) => ({
+        archive: archiveNodes.includes(url),
+        capabilities: capabilities[url] ?? null,
+        ok: nodes.includes(url),
+        url,
+        ws: false
+      }))
+    )
+
+    progress = {
+      ...progress,
+      archiveNodes: [...progress.archiveNodes, ...archiveNodes],
+      capabilities: { ...progress.capabilities, ...capabilities },
+      cursor: progress.cursor + slice.length,
+      nodes: [...progress.nodes, ...nodes]
+    }
+    checked += slice.length
+    await saveSyncProgress(env.DB, slug, progress)
+  }
+
+  if (progress.cursor < progress.urls.length) {
+    console.log(`[Cron] ${slug}: Checked ${progress.cursor}/${progress.urls.length} RPCs, continuing next run`)
+    return 'pending'
+  }
+
+  // WebSocket nodes are used for eth_subscribe fan-out
+  const wsUrls = chainEntry ? extractWsUrls(chainEntry) : []
+  const passedWsNodes = await validateWsNodes(env.DB, slug, wsUrls, expectedChainId, queue)
+
+  // Merge with what is stored, failures counted over every check recorded for the nodes
+  const stored = await loadStoredNodes(env.DB, slug)
+  const failures = new Map(
+    (await getNodeRecords(env.DB, slug)).map((record) => [record.url, record.consecutiveFailures])
+  )
+  const listed = new Set(progress.urls)
+
+  const nodes = mergeNodeList(stored.nodes, progress.nodes, listed, failures)
+  // A node that passed without serving historical state is no longer archive
+  const archiveListed = new Set(
+    progress.urls.filter((url) => !progress.nodes.includes(url) || progress.archiveNodes.includes(url))
+  )
+  const archiveNodes = mergeNodeList(stored.archiveNodes, progress.archiveNodes, archiveListed, failures).filter(
+    (url) => nodes.includes(url)
+  )
+  const wsNodes = mergeNodeList(stored.wsNodes, passedWsNodes, new Set(wsUrls), failures)
+
+  if (nodes.length === 0) {
+    console.log(`[Cron] ${slug}: No valid nodes found`)
+    await clearSyncProgress(env.DB, slug)
+    return 'failed'
+  }
+
+  const removed = stored.nodes.filter((url) => !nodes.includes(url))
+  if (!force && stored.nodes.length > 0 && removed.length / stored.nodes.length > MAX_REMOVAL_RATIO) {
+    const reason = `would remove ${removed.length} of ${stored.nodes.length} nodes`
+    console.warn(`[Cron] ${slug}: Refusing pass, it ${reason}. Keeping the stored nodes until a forced sync.`)
+    await saveSyncProgress(env.DB, slug, { ...progress, refused: reason })
+    return 'refused'
+  }
+
+  // Nodes kept through failed checks keep the capabilities they were last probed with
+  const capabilities: Record<string, NodeCapabilities> = {}
+  for (const url of nodes) {
+    const probed = progress.capabilities[url] ?? stored.capabilities[url]
+    if (probed) capabilities[url] = probed
+  }
+
+  // Store in D1
+  const icon = (chainEntry as { icon?: string } | undefined)?.icon
+  const privacy = chainEntry ? extractNodePrivacy(chainEntry, [...staticNodes, ...mevNodes]) : {}
+  await storeChainData(
+    env.DB,
+    slug,
+    name,
+    icon,
+    expectedChainId,
+    nodes,
+    archiveNodes,
+    mevNodes,
+    wsNodes,
+    capabilities,
+    privacy
+  )
+  await setMevNodes(env.DB, slug, mevNodes)
+  await clearSyncProgress(env.DB, slug)
+  console.log(
+    `[Cron] ${slug}: ${nodes.length} nodes (${progress.nodes.length} passed, ${removed.length} removed), ${archiveNodes.length} archive, ${wsNodes.length} ws`
+  )
+
+  return 'stored'
+}
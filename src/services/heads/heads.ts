@@ -0,0 +1,193 @@
+/**
+ * Chain Head Tracking
+ *
+ * Tracks the latest block each upstream node has reported, from periodic eth_blockNumber
+ * probes and from head-revealing responses (eth_blockNumber, eth_getBlockByNumber('latest')).
+ *
+ * The chain head is the highest block at least HEAD_QUORUM recently seen nodes have reached, so
+ * one node reporting a bogus block cannot move it, and it follows the nodes back down as their
+ * reports age out. A report far past that head is ignored.
+ *
+ * A node's lag is measured when it reports, against the head at that moment.
+ * This keeps a node that was simply not asked recently from looking behind.
+ *
+ * Finality:
+ * - FINALIZED: The `finalized` block tag, for PoS chains and L2s
+ * - DEPTH: A fixed number of confirmations below the head, for PoW-style chains
+ *   (also the fallback while the finalized tag is unknown)
+ *
+ * Hashes of unfinalized blocks are remembered, so a height that comes back with a
+ * different hash is reported as a reorg.
+ */
+
+// Observations older than this say nothing about a node's current lag
+const HEAD_STALE_MS = 5 * 60_000
+
+// Upper bound on remembered unfinalized block hashes
+const MAX_TRACKED_HASHES = 1024
+
+// Nodes that must have reached a block for it to be the head (fewer when fewer nodes reported)
+const HEAD_QUORUM = 2
+
+// Blocks past the head a report may be before it is taken as bogus rather than progress
+const MAX_HEAD_JUMP = 10_000
+
+export type FinalityModel = 'finalized' | 'depth'
+
+interface NodeHead {
+  block: number
+  lag: number
+  seenAt: number
+}
+
+export interface HeadSnapshot {
+  head: number
+  nodes: Record<string, { block: number; lag: number; seenAt: number }>
+}
+
+export class HeadTracker {
+  private nodes = new Map<string, NodeHead>()
+  // Head as of the last report, kept once every report has aged out
+  private lastHead = 0
+  private finalizedTag = 0
+  private safeTag = 0
+  private hashes = new Map<number, string>()
+
+  /**
+   * Record a head reported by a node
+   */
+  observe(url: string, block: number, now = Date.now()): void {
+    if (!Number.isSafeInteger(block) || block <= 0) return
+
+    const head = this.getQuorumHead(HEAD_STALE_MS, now)
+    if (head !== null && block > head + MAX_HEAD_JUMP) return
+
+    const previous = this.nodes.get(url)
+    // Heads only move forward, an older reply arriving late changes nothing
+    if (previous && block < previous.block && now - previous.seenAt <= HEAD_STALE_MS) return
+
+    this.nodes.set(url, { block, lag: Math.max(0, (head ?? this.lastHead) - block), seenAt: now })
+    this.lastHead = this.getQuorumHead(HEAD_STALE_MS, now) ?? block
+  }
+
+  getHead(now = Date.now()): number {
+    return this.getQuorumHead(HEAD_STALE_MS, now) ?? this.lastHead
+  }
+
+  /**
+   * The head among nodes that reported within `maxAge`, or null if none did.
+   * An older head may already have been superseded without us knowing.
+   */
+  getFreshHead(maxAge: number, now = Date.now()): number | null {
+    return this.getQuorumHead(maxAge, now)
+  }
+
+  /**
+   * Record the block returned for the `safe` tag
+   */
+  observeSafe(block: number): void {
+    if (Number.isSafeInteger(block) && block > this.safeTag) this.safeTag = block
+  }
+
+  /**
+   * Blocks the node-side `safe` and `finalized` tags last resolved to, or null while unknown
+   */
+  getTags(): { safe: number | null; finalized: number | null } {
+    return { finalized: this.finalizedTag || null, safe: this.safeTag || null }
+  }
+
+  /**
+   * Record the block returned for the `finalized` tag
+   */
+  observeFinalized(block: number): void {
+    if (Number.isSafeInteger(block) && block > this.finalizedTag) this.finalizedTag = block
+  }
+
+  /**
+   * Highest block considered final under the chain's model, or null while unknown
+   */
+  getFinalized(model: FinalityModel, confirmations: number): number | null {
+    if (model === 'finalized' && this.finalizedTag > 0) return this.finalizedTag
+
+    const head = this.getHead()
+    if (head === 0) return null
+    return Math.max(0, head - confirmations)
+  }
+
+  /**
+   * Remember the hash seen for an unfinalized height.
+   * Returns true when the height was known with a different hash, i.e. a reorg.
+   */
+  recordBlockHash(block: number, hash: string, finalized: number | null): boolean {
+    if (finalized !== null && block <= finalized) return false
+
+    const known = this.hashes.get(block)
+    this.hashes.set(block, hash)
+
+    if (this.hashes.size > MAX_TRACKED_HASHES) {
+      // Drop the oldest heights first, they are the closest to finality
+      const heights = [...this.hashes.keys()].sort((a, b) => a - b)
+      for (const height of heights.slice(0, this.hashes.size - MAX_TRACKED_HASHES)) {
+        this.hashes.delete(height)
+      }
+    }
+    if (finalized !== null) {
+      for (const height of this.hashes.keys()) {
+        if (height <= finalized) this.hashes.delete(height)
+      }
+    }
+
+    return known !== undefined && known !== hash
+  }
+
+  /**
+   * Drop nodes lagging more than `maxLag` blocks behind the best head, and nodes known
+   * not to have reached `minBlock` yet.
+   * Nodes without a recent observation are kept. If every node lags, nothing is dropped.
+   */
+  filterSynced(urls: string[], maxLag: number, minBlock: number | null = null, now = Date.now()): string[] {
+    const synced = urls.filter((url) => {
+      const head = this.nodes.get(url)
+      if (!head || now - head.seenAt > HEAD_STALE_MS) return true
+      return head.lag <= maxLag && (minBlock === null || head.block >= minBlock)
+    })
+
+    return synced.length > 0 ? synced : urls
+  }
+
+  /**
+   * Forget nodes that are no longer part of the chain's node lists
+   */
+  retain(urls: Set<string>): void {
+    for (const url of this.nodes.keys()) {
+      if (!urls.has(url)) this.nodes.delete(url)
+    }
+  }
+
+  toJSON(): HeadSnapshot {
+    return { head: this.getHead(), nodes: Object.fromEntries(this.nodes) }
+  }
+
+  /**
+   * Highest block that HEAD_QUORUM of the nodes seen within `maxAge` have reached
+   */
+  private getQuorumHead(maxAge: number, now: number): number | null {
+    const blocks = [...this.nodes.values()]
+      .filter((head) => now - head.seenAt <= maxAge)
+      .map((head) => head.block)
+      .sort((a, b) => b - a)
+
+    if (blocks.length === 0) return null
+    return blocks[Math.min(HEAD_QUORUM, blocks.length) - 1]
+  }
+}
+
+/**
+ * Parse a hex quantity (e.g. "0x1b4") into a block number
+ */
+export function parseBlockNumber(value: unknown): number | null {
+  if (typeof value !== 'string' || !value.startsWith('0x')) return null
+
+  const block = Number.parseInt(value, 16)
+  return Number.isSafeInteger(block) ? block : null
+}
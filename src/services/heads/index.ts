@@ -0,0 +1 @@
+export { type FinalityModel, type HeadSnapshot, HeadTracker, parseBlockNumber } from './heads'
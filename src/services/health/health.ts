@@ -0,0 +1,233 @@
+/**
+ * Upstream Node Health Tracking
+ *
+ * Each node keeps an EWMA of its latency and error rate plus a consecutive failure counter.
+ * Selection is weighted towards fast, reliable nodes instead of a uniform shuffle.
+ *
+ * Circuit Breaker:
+ * - CLOSED: Node is routable, weighted by health
+ * - OPEN: Node failed FAILURE_THRESHOLD times in a row and is ejected for a cooldown
+ * - HALF-OPEN: Cooldown expired, a single live request is let through as a probe.
+ *   Success closes the circuit, failure re-opens it with a doubled cooldown.
+ *
+ * Nodes pinned by an operator go ahead of the others while their circuit is closed.
+ */
+
+// Smoothing factors for the moving averages (higher = reacts faster)
+const LATENCY_ALPHA = 0.2
+const ERROR_ALPHA = 0.1
+
+// Latency assumed for nodes that have not been measured yet
+const DEFAULT_LATENCY_MS = 500
+
+// Consecutive failures that open the circuit
+const FAILURE_THRESHOLD = 3
+
+// Cooldown before a half-open probe, doubled after every failed probe
+const BASE_COOLDOWN_MS = 30_000
+const MAX_COOLDOWN_MS = 600_000
+
+// A probe that never reported back is considered lost after this long
+const PROBE_TIMEOUT_MS = 30_000
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface NodeHealth {
+  latencyMs: number
+  errorRate: number
+  consecutiveFailures: number
+  circuit: CircuitState
+  openedAt: number
+  cooldownMs: number
+  probeStartedAt: number
+}
+
+function createNodeHealth(): NodeHealth {
+  return {
+    circuit: 'closed',
+    consecutiveFailures: 0,
+    cooldownMs: BASE_COOLDOWN_MS,
+    errorRate: 0,
+    latencyMs: DEFAULT_LATENCY_MS,
+    openedAt: 0,
+    probeStartedAt: 0
+  }
+}
+
+/**
+ * Selection weight: inverse latency, penalized by error rate
+ */
+function getWeight(health: NodeHealth): number {
+  return 1 / (health.latencyMs * (1 + 10 * health.errorRate))
+}
+
+export class HealthTracker {
+  private nodes: Map<string, NodeHealth>
+  private pinned = new Set<string>()
+
+  constructor(snapshot?: Record<string, NodeHealth>) {
+    this.nodes = new Map(Object.entries(snapshot ?? {}))
+  }
+
+  get(url: string): NodeHealth {
+    let health = this.nodes.get(url)
+    if (!health) {
+      health = createNodeHealth()
+      this.nodes.set(url, health)
+    }
+    return health
+  }
+
+  /**
+   * Start a node that has not been measured yet at a known latency instead of DEFAULT_LATENCY_MS
+   */
+  seed(url: string, latencyMs: number): void {
+    if (!this.nodes.has(url)) this.nodes.set(url, { ...createNodeHealth(), latencyMs })
+  }
+
+  /**
+   * Replace the set of pinned nodes
+   */
+  setPinned(urls: Set<string>): void {
+    this.pinned = urls
+  }
+
+  /**
+   * Pick up to `count` distinct nodes to try in order.
+   *
+   * Healthy nodes are sampled without replacement, weighted by health (Efraimidis-Spirakis),
+   * pinned ones first.
+   * A node whose cooldown expired goes first as the half-open probe, so a failed probe
+   * costs the caller one failover. If every circuit is open, the nodes that have been
+   * ejected the longest are returned rather than nothing.
+   */
+  select(urls: string[], count: number, now = Date.now()): string[] {
+    const candidates: { url: string; key: number }[] = []
+    let probe: string | null = null
+
+    for (const url of urls) {
+      const health = this.get(url)
+      const circuit = this.getCircuit(health, now)
+
+      if (circuit === 'open') continue
+
+      if (circuit === 'half-open') {
+        // One live probe at a time per node
+        if (!probe && now - health.probeStartedAt >= PROBE_TIMEOUT_MS) probe = url
+        continue
+      }
+
+      candidates.push({ key: Math.log(Math.random()) / getWeight(health), url })
+    }
+
+    candidates.sort((a, b) => Number(this.pinned.has(b.url)) - Number(this.pinned.has(a.url)) || b.key - a.key)
+    const selected = candidates.map((c) => c.url)
+
+    if (probe) {
+      this.get(probe).probeStartedAt = now
+      selected.unshift(probe)
+    }
+
+    if (selected.length === 0) {
+      return [...urls].sort((a, b) => this.get(a).openedAt - this.get(b).openedAt).slice(0, count)
+    }
+
+    return selected.slice(0, count)
+  }
+
+  /**
+   * Record a successful call. Returns true if the circuit state changed.
+   */
+  recordSuccess(url: string, latencyMs: number): boolean {
+    const health = this.get(url)
+
+    health.latencyMs += LATENCY_ALPHA * (latencyMs - health.latencyMs)
+    health.errorRate *= 1 - ERROR_ALPHA
+    health.consecutiveFailures = 0
+    health.probeStartedAt = 0
+
+    if (health.circuit === 'closed') return false
+
+    console.log(`[Health] Circuit closed: ${url}`)
+    health.circuit = 'closed'
+    health.cooldownMs = BASE_COOLDOWN_MS
+    return true
+  }
+
+  /**
+   * Record a failed call. Returns true if the circuit state changed.
+   */
+  recordFailure(url: string, now = Date.now()): boolean {
+    const health = this.get(url)
+
+    health.errorRate += ERROR_ALPHA * (1 - health.errorRate)
+    health.consecutiveFailures++
+    health.probeStartedAt = 0
+
+    if (health.circuit === 'half-open') {
+      // Failed probe: back off harder
+      health.cooldownMs = Math.min(health.cooldownMs * 2, MAX_COOLDOWN_MS)
+    } else if (health.circuit !== 'closed' || health.consecutiveFailures < FAILURE_THRESHOLD) {
+      return false
+    }
+
+    console.warn(`[Health] Circuit opened for ${health.cooldownMs / 1000}s: ${url}`)
+    health.circuit = 'open'
+    health.openedAt = now
+    return true
+  }
+
+  /**
+   * Forget nodes that are no longer part of the chain's node lists
+   */
+  retain(urls: Set<string>): void {
+    for (const url of this.nodes.keys()) {
+      if (!urls.has(url)) this.nodes.delete(url)
+    }
+  }
+
+  toJSON(): Record<string, NodeHealth> {
+    return Object.fromEntries(this.nodes)
+  }
+
+  private getCircuit(health: NodeHealth, now: number): CircuitState {
+    if (health.circuit === 'open' && now - health.openedAt >= health.cooldownMs) {
+      health.circuit = 'half-open'
+    }
+    return health.circuit
+  }
+}
+
+// Number of recent samples kept per chain
+const LATENCY_WINDOW_SIZE = 256
+
+// Percentiles are meaningless below this many samples
+const MIN_LATENCY_SAMPLES = 20
+
+/**
+ * Ring buffer of recent upstream latencies for percentile queries
+ */
+export class LatencyWindow {
+  private samples: number[] = []
+  private next = 0
+
+  add(latencyMs: number): void {
+    if (this.samples.length < LATENCY_WINDOW_SIZE) {
+      this.samples.push(latencyMs)
+    } else {
+      this.samples[this.next] = latencyMs
+    }
+    this.next = (this.next + 1) % LATENCY_WINDOW_SIZE
+  }
+
+  /**
+   * Latency at percentile `p` (0-1), or null while there are too few samples
+   */
+  percentile(p: number): number | null {
+    if (this.samples.length < MIN_LATENCY_SAMPLES) return null
+
+    const sorted = [...this.samples].sort((a, b) => a - b)
+    const index = Math.min(sorted.length - 1, Math.floor(p * sorted.length))
+    return sorted[index]
+  }
+}
@@ -0,0 +1 @@
+export { type CircuitState, HealthTracker, LatencyWindow, type NodeHealth } from './health'
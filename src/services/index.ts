@@ -1,2 +1,97 @@
-export { cacheResponse, calculateCacheKey, getCacheCategory, getCachedResponse, getCacheTtl } from './cache'
-export { syncPublicNodes } from './cron'
+export {
+  BLOCK_TAGS_HEADER,
+  type BlockTags,
+  cacheResponse,
+  calculateCacheKey,
+  FINALIZED_HEADER,
+  formatBlockTags,
+  getCacheCategory,
+  getCachedResponse,
+  getCacheTtl,
+  getFinalityTtl,
+  getMethodCost,
+  getPersistentCache,
+  getRequestBlock,
+  isImmutableResult,
+  KvCache,
+  LATEST_MAX_AGE_MS,
+  mayBeImmutable,
+  type PersistentCache,
+  persistResponse,
+  purgeBlockFromCache,
+  recordBlockTags,
+  resolveBlockTags
+} from './cache'
+export {
+  canServe,
+  getNodeRequirement,
+  isProbeStale,
+  type NodeCapabilities,
+  type NodeRequirement,
+  PROBED_NAMESPACES,
+  probeCapabilities
+} from './capabilities'
+export { type ChainSyncResult, syncPublicNodes } from './cron'
+export { type FinalityModel, type HeadSnapshot, HeadTracker, parseBlockNumber } from './heads'
+export { type CircuitState, HealthTracker, LatencyWindow, type NodeHealth } from './health'
+export { type ApiKey, getApiKey, hashApiKey, isChainAllowed } from './keys'
+export {
+  BUDGET_HEADER,
+  chargeBudget,
+  checkBatchLimits,
+  checkLogsLimits,
+  DEFAULT_REQUEST_LIMITS,
+  getBodyLimitHit,
+  getClientKey,
+  getRequestLimits,
+  LIMIT_HEADER,
+  type LimitHit,
+  type LimitResult,
+  type LimitViolation,
+  normalizeAddress,
+  type RateBudget,
+  type RequestLimits,
+  readBodyWithin,
+  withRateLimitHeaders
+} from './limits'
+export {
+  type BlockRange,
+  getFixedLogsRange,
+  getRangeFilter,
+  LOGS_CHUNK_SIZE,
+  type LogsFilter,
+  type LogsPiece,
+  MIN_LOGS_CHUNK_SIZE,
+  mergeLogs,
+  splitLogsRange
+} from './logs'
+export {
+  getNodeChecks,
+  getNodeRecords,
+  NODE_CHECK_RETENTION_S,
+  type NodeCheck,
+  type NodeCheckRecord,
+  type NodeRecord,
+  pruneNodeChecks,
+  recordNodeChecks,
+  setMevNodes
+} from './nodes'
+export {
+  getManualNodes,
+  getNodeOverrides,
+  NODE_ACTIONS,
+  type NodeAction,
+  type NodeOverrides,
+  setNodeOverride,
+  withoutBanned
+} from './overrides'
+export { type ChainFamily, checkMethodPolicy, type MethodDenial, type MethodOverrides } from './policy'
+export {
+  getEffectivePrivacyPolicy,
+  type NodePrivacy,
+  type PrivacyPolicy,
+  parseTrackingLevel,
+  type TrackingLevel,
+  withPrivacyPolicy
+} from './privacy'
+export { type ChainRegistryEntry, findChain, getChainRegistry, resolveChainSlug } from './registry'
@@ -0,0 +1 @@
+export { type ApiKey, getApiKey, hashApiKey, isChainAllowed } from './keys'
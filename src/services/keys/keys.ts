@@ -0,0 +1,103 @@
+/**
+ * API Keys
+ *
+ * Keys are opaque tokens in the URL (/:chain/:token). Only their SHA-256 hash is stored in
+ * the api_keys table, and the token itself never leaves the router: it is not forwarded to
+ * ChainDO or upstream, and analytics only see the key's row id.
+ *
+ * Lookups are cached per isolate for a short while, unknown keys included, so a flood of
+ * requests with a bad key does not turn into a flood of D1 queries.
+ */
+
+// How long a lookup is trusted, also how long a disabled key may keep working
+const KEY_CACHE_TTL_MS = 60_000
+
+// Upper bound on cached lookups per isolate
+const MAX_CACHED_KEYS = 1000
+
+// Tokens are URL-safe and of reasonable length, anything else is rejected without a lookup
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,128}$/
+
+export interface ApiKey {
+  id: number
+  name: string | null
+  // Allowed chain slugs, null allows every chain
+  chains: string[] | null
+  // Compute units per ratePeriod (see getMethodCost), null for no limit
+  rateLimit: number | null
+  ratePeriod: number
+  enabled: boolean
+}
+
+interface ApiKeyRow {
+  id: number
+  name: string | null
+  chains: string | null
+  rate_limit: number | null
+  rate_period: number | null
+  enabled: number
+}
+
+const KEY_CACHE = new Map<string, { key: ApiKey | null; expiresAt: number }>()
+
+/**
+ * SHA-256 hex digest of a token, as stored in api_keys.key_hash
+ */
+export async function hashApiKey(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Look up the enabled key for a token, or null if the token is unknown or disabled
+ */
+export async function getApiKey(env: Env, token: string): Promise<ApiKey | null> {
+  if (!TOKEN_PATTERN.test(token)) return null
+
+  const keyHash = await hashApiKey(token)
+  const cached = KEY_CACHE.get(keyHash)
+  if (cached && cached.expiresAt > Date.now()) return cached.key
+
+  const row = await env.DB.prepare(
+    'SELECT id, name, chains, rate_limit, rate_period, enabled FROM api_keys WHERE key_hash = ?'
+  )
+    .bind(keyHash)
+    .first<ApiKeyRow>()
+
+  const key = row ? parseApiKey(row) : null
+  const result = key?.enabled ? key : null
+
+  if (KEY_CACHE.size >= MAX_CACHED_KEYS) KEY_CACHE.clear()
+  KEY_CACHE.set(keyHash, { expiresAt: Date.now() + KEY_CACHE_TTL_MS, key: result })
+
+  return result
+}
+
+/**
+ * Whether a key may be used on a chain
+ */
+export function isChainAllowed(key: ApiKey, chain: string): boolean {
+  return key.chains === null || key.chains.includes(chain)
+}
+
+function parseApiKey(row: ApiKeyRow): ApiKey {
+  let chains: string[] | null = null
+  try {
+    const parsed = row.chains ? JSON.parse(row.chains) : null
+    chains = parsed === null || Array.isArray(parsed) ? parsed : []
+  } catch (_) {
+    // Unreadable list: allow nothing rather than everything
+    chains = []
+  }
+
+  return {
+    chains,
+    enabled: row.enabled === 1,
+    id: row.id,
+    name: row.name,
+    rateLimit: row.rate_limit,
+    ratePeriod: row.rate_period ?? 60
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Privacy-preserving client keys for rate limiting
+ *
+ * Limiters never see a client's address. They are keyed by HMAC(dailySalt, address), where
+ * the daily salt is derived from the RATE_LIMIT_SECRET secret and the day number, so keys
+ * cannot be linked across days and cannot be reversed without the secret.
+ *
+ * IPv6 clients are grouped by their /64, which is usually one subscriber: otherwise every
+ * address in the prefix would get a fresh budget.
+ *
+ * Each client's day starts at its own offset (derived from the address, also keyed), so the
+ * salt rotation resets a few clients at a time instead of everyone at midnight.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Without a configured secret, each isolate makes up its own: limits get looser, but
+// addresses still never reach a limiter
+let fallbackSecret: string | null = null
+
+const KEY_CACHE = new Map<string, Promise<CryptoKey>>()
+
+/**
+ * Rate limiter key for a client address, stable for a day
+ */
+export async function getClientKey(env: Env, ip: string, now = Date.now()): Promise<string> {
+  const address = normalizeAddress(ip)
+  const secret = getSecret(env)
+
+  const offset = (await hmac(secret, `offset:${address}`)).getUint32(0) % DAY_MS
+  const day = Math.floor((now + offset) / DAY_MS)
+
+  const salt = await hmac(secret, `salt:${day}`)
+  const digest = await hmac(salt, address)
+
+  return toHex(digest).slice(0, 32)
+}
+
+/**
+ * Group IPv6 addresses by /64, leave IPv4 as is
+ */
+export function normalizeAddress(ip: string): string {
+  if (!ip.includes(':')) return ip
+
+  // IPv4-mapped IPv6 (::ffff:1.2.3.4) is the IPv4 client
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return mapped[1]
+
+  const [head, tail = ''] = ip.toLowerCase().split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = ip.includes('::') && tail ? tail.split(':') : []
+  const missing = 8 - headGroups.length - tailGroups.length
+  const groups = [...headGroups, ...new Array(Math.max(0, missing)).fill('0'), ...tailGroups]
+
+  const prefix = groups.slice(0, 4).map((group) => Number.parseInt(group || '0', 16).toString(16))
+  return `${prefix.join(':')}::/64`
+}
+
+function getSecret(env: Env): string {
+  if (env.RATE_LIMIT_SECRET) return env.RATE_LIMIT_SECRET
+
+  if (!fallbackSecret) {
+    fallbackSecret = toHex(new DataView(crypto.getRandomValues(new Uint8Array(32)).buffer))
+  }
+  return fallbackSecret
+}
+
+async function hmac(secret: string | DataView, message: string): Promise<DataView> {
+  const keyId = typeof secret === 'string' ? secret : toHex(secret)
+
+  let key = KEY_CACHE.get(keyId)
+  if (!key) {
+    const raw = typeof secret === 'string' ? new TextEncoder().encode(secret) : secret
+    key = crypto.subtle.importKey('raw', raw, { hash: 'SHA-256', name: 'HMAC' }, false, ['sign'])
+    // Keys are the secret and one salt per day, a handful per isolate
+    if (KEY_CACHE.size > 16) KEY_CACHE.clear()
+    KEY_CACHE.set(keyId, key)
+  }
+
+  const signature = await crypto.subtle.sign('HMAC', await key, new TextEncoder().encode(message))
+  return new DataView(signature)
+}
+
+function toHex(view: DataView): string {
+  return Array.from(new Uint8Array(view.buffer, view.byteOffset, view.byteLength))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,14 @@
+export { getClientKey, normalizeAddress } from './client'
+export { BUDGET_HEADER, chargeBudget, type LimitResult, type RateBudget, withRateLimitHeaders } from './limits'
+export {
+  checkBatchLimits,
+  checkLogsLimits,
+  DEFAULT_REQUEST_LIMITS,
+  getBodyLimitHit,
+  getRequestLimits,
+  LIMIT_HEADER,
+  type LimitHit,
+  type LimitViolation,
+  type RequestLimits,
+  readBodyWithin
+} from './request'
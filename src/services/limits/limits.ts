@@ -0,0 +1,50 @@
+/**
+ * Per-client rate limits on LimiterDO
+ *
+ * Requests are charged in compute units (see getMethodCost) against a budget per client,
+ * over a sliding window. Every client gets a LimiterDO instance named after it.
+ * Cache hits are never charged.
+ */
+
+import type { LimitResult } from '@/objects/limiter'
+
+export type { LimitResult }
+
+// Request header through which the router hands ChainDO the budget a WebSocket's messages are charged to
+export const BUDGET_HEADER = 'X-NullRPC-Budget'
+
+/**
+ * Who a request is charged to, and how much it may spend
+ */
+export interface RateBudget {
+  // LimiterDO instance name, e.g. "client:<hmac>" or "key:<id>"
+  client: string
+  // Compute units per period
+  limit: number
+  // Window length in seconds
+  period: number
+}
+
+/**
+ * Charge a request's compute units to its client's budget
+ */
+export async function chargeBudget(env: Env, budget: RateBudget, cost: number): Promise<LimitResult> {
+  const stub = env.LIMITER_DO.get(env.LIMITER_DO.idFromName(budget.client))
+
+  const response = await stub.fetch('https://null-rpc.internal/limit', {
+    body: JSON.stringify({ cost, limit: budget.limit, period: budget.period }),
+    method: 'POST'
+  })
+  return response.json<LimitResult>()
+}
+
+/**
+ * Report the budget left after a request in X-RateLimit-* headers
+ */
+export function withRateLimitHeaders(response: Response, result: LimitResult): Response {
+  const withHeaders = new Response(response.body, response)
+  withHeaders.headers.set('X-RateLimit-Limit', String(result.limit))
+  withHeaders.headers.set('X-RateLimit-Remaining', String(result.remaining))
+  withHeaders.headers.set('X-RateLimit-Reset', String(result.reset))
+  return withHeaders
+}
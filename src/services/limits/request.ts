@@ -0,0 +1,195 @@
+/**
+ * Request Limits
+ *
+ * Per-chain bounds on what a single request may ask for, checked before anything is cached,
+ * charged or sent upstream:
+ * - maxBodyBytes: Request body size, enforced while the body is read so it is never buffered whole
+ * - maxBatchItems: Items in one batch
+ * - maxLogsRange: Blocks spanned by one eth_getLogs
+ * - maxLogsAddresses: Addresses in one eth_getLogs filter
+ *
+ * Limits are keys of chains.settings, DEFAULT_REQUEST_LIMITS fills in the rest. The router
+ * enforces them and counts every hit in analytics. ChainDO checks them again, which also
+ * covers calls made over WebSocket.
+ */
+
+import { parseBlockNumber } from '../heads'
+
+export interface RequestLimits {
+  maxBodyBytes: number
+  maxBatchItems: number
+  maxLogsRange: number
+  maxLogsAddresses: number
+}
+
+// Which limit a request went over, reported to analytics as the error type
+export type LimitViolation = 'body_too_large' | 'batch_too_large' | 'logs_range_too_large' | 'too_many_log_addresses'
+
+export interface LimitHit {
+  violation: LimitViolation
+  message: string
+  // The limit itself, returned to the client as error data
+  limit: number
+}
+
+export const DEFAULT_REQUEST_LIMITS: RequestLimits = {
+  maxBatchItems: 100,
+  maxBodyBytes: 1024 * 1024,
+  maxLogsAddresses: 100,
+  maxLogsRange: 10_000
+}
+
+// Response header through which ChainDO reports a limit it rejected a request on, read by analytics
+export const LIMIT_HEADER = 'X-NullRPC-Limit'
+
+// How long an isolate trusts the limits it loaded for a chain
+const LIMITS_CACHE_TTL_MS = 60_000
+
+// Upper bound on cached chains per isolate
+const MAX_CACHED_CHAINS = 1000
+
+const LIMITS_CACHE = new Map<string, { limits: RequestLimits; expiresAt: number }>()
+
+/**
+ * Limits for a chain, from its settings in D1. Unknown chains, and failed lookups, get the defaults.
+ */
+export async function getRequestLimits(env: Env, chain: string): Promise<RequestLimits> {
+  const cached = LIMITS_CACHE.get(chain)
+  if (cached && cached.expiresAt > Date.now()) return cached.limits
+
+  let limits = DEFAULT_REQUEST_LIMITS
+  try {
+    const row = await env.DB.prepare('SELECT settings FROM chains WHERE slug = ?')
+      .bind(chain)
+      .first<{ settings: string | null }>()
+    limits = pickRequestLimits(JSON.parse(row?.settings || '{}'))
+  } catch (e) {
+    console.error('Failed to load request limits', e)
+  }
+
+  if (LIMITS_CACHE.size >= MAX_CACHED_CHAINS) LIMITS_CACHE.clear()
+  LIMITS_CACHE.set(chain, { expiresAt: Date.now() + LIMITS_CACHE_TTL_MS, limits })
+
+  return limits
+}
+
+/**
+ * The request limits out of a chain's settings, defaults for any that are not set
+ */
+function pickRequestLimits(settings: Partial<RequestLimits>): RequestLimits {
+  return {
+    maxBatchItems: settings.maxBatchItems ?? DEFAULT_REQUEST_LIMITS.maxBatchItems,
+    maxBodyBytes: settings.maxBodyBytes ?? DEFAULT_REQUEST_LIMITS.maxBodyBytes,
+    maxLogsAddresses: settings.maxLogsAddresses ?? DEFAULT_REQUEST_LIMITS.maxLogsAddresses,
+    maxLogsRange: settings.maxLogsRange ?? DEFAULT_REQUEST_LIMITS.maxLogsRange
+  }
+}
+
+/**
+ * Read a request body as text, giving up as soon as it is larger than maxBytes.
+ * Returns null for an oversized body.
+ */
+export async function readBodyWithin(request: Request, maxBytes: number): Promise<string | null> {
+  // A declared length is trusted only to reject early, the count below is what holds
+  if (Number(request.headers.get('Content-Length')) > maxBytes) return null
+  if (!request.body) return ''
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+
+  return new TextDecoder().decode(body)
+}
+
+/**
+ * The hit for a body over maxBodyBytes
+ */
+export function getBodyLimitHit(limits: RequestLimits): LimitHit {
+  return {
+    limit: limits.maxBodyBytes,
+    message: `Request body exceeds the limit of ${limits.maxBodyBytes} bytes`,
+    violation: 'body_too_large'
+  }
+}
+
+/**
+ * Check the number of items in a batch
+ */
+export function checkBatchLimits(items: number, limits: RequestLimits): LimitHit | null {
+  if (items <= limits.maxBatchItems) return null
+
+  return {
+    limit: limits.maxBatchItems,
+    message: `Batch of ${items} items exceeds the limit of ${limits.maxBatchItems}`,
+    violation: 'batch_too_large'
+  }
+}
+
+/**
+ * Check the filter of an eth_getLogs call. Other methods always pass.
+ * `latest` (and an omitted bound) count as `head`; without a head, or with a blockHash,
+ * only the address count is checked.
+ */
+export function checkLogsLimits(
+  method: string,
+  params: unknown[],
+  limits: RequestLimits,
+  head: number | null = null
+): LimitHit | null {
+  if (method !== 'eth_getLogs') return null
+
+  const filter = params[0] as { address?: unknown; blockHash?: unknown; fromBlock?: unknown; toBlock?: unknown }
+  if (!filter || typeof filter !== 'object') return null
+
+  const addresses = Array.isArray(filter.address) ? filter.address.length : 0
+  if (addresses > limits.maxLogsAddresses) {
+    return {
+      limit: limits.maxLogsAddresses,
+      message: `eth_getLogs filter with ${addresses} addresses exceeds the limit of ${limits.maxLogsAddresses}`,
+      violation: 'too_many_log_addresses'
+    }
+  }
+
+  if (filter.blockHash !== undefined) return null
+
+  const from = getBoundBlock(filter.fromBlock, head)
+  const to = getBoundBlock(filter.toBlock, head)
+  if (from === null || to === null) return null
+
+  const range = to - from + 1
+  if (range <= limits.maxLogsRange) return null
+
+  return {
+    limit: limits.maxLogsRange,
+    message: `eth_getLogs range of ${range} blocks exceeds the limit of ${limits.maxLogsRange}`,
+    violation: 'logs_range_too_large'
+  }
+}
+
+/**
+ * Block number of an eth_getLogs bound, null when it cannot be known here
+ */
+function getBoundBlock(bound: unknown, head: number | null): number | null {
+  if (bound === undefined || bound === 'latest' || bound === 'pending') return head
+  if (bound === 'earliest') return 0
+  return parseBlockNumber(bound)
+}
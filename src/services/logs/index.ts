@@ -0,0 +1,11 @@
+export {
+  type BlockRange,
+  getFixedLogsRange,
+  getRangeFilter,
+  LOGS_CHUNK_SIZE,
+  type LogsFilter,
+  type LogsPiece,
+  MIN_LOGS_CHUNK_SIZE,
+  mergeLogs,
+  splitLogsRange
+} from './logs'
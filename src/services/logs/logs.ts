@@ -0,0 +1,95 @@
+/**
+ * eth_getLogs Range Chunking
+ *
+ * Public nodes cap the block range of eth_getLogs, each at its own limit and with its own error.
+ * Large fixed ranges are split into chunks aligned to LOGS_CHUNK_SIZE, so overlapping queries
+ * cover the same chunks and can reuse them from the cache. A chunk goes to one node, further
+ * split if that node accepts less. The logs are merged back in block order.
+ */
+
+import { parseBlockNumber } from '../heads'
+
+// Chunk size, and the boundaries chunks are aligned to
+export const LOGS_CHUNK_SIZE = 2000
+
+// Nodes that reject even this much are given up on for the request
+export const MIN_LOGS_CHUNK_SIZE = 50
+
+export interface LogsFilter {
+  address?: unknown
+  topics?: unknown
+  fromBlock?: unknown
+  toBlock?: unknown
+  blockHash?: unknown
+}
+
+export interface BlockRange {
+  from: number
+  to: number
+}
+
+/**
+ * Logs fetched for part of a range, merged by `from`
+ */
+export interface LogsPiece {
+  from: number
+  logs: unknown[]
+}
+
+/**
+ * The block range of an eth_getLogs call with two fixed bounds, or null for any other call
+ */
+export function getFixedLogsRange(method: string, params: unknown[]): BlockRange | null {
+  if (method !== 'eth_getLogs') return null
+
+  const filter = params[0] as LogsFilter | undefined
+  if (!filter || typeof filter !== 'object' || filter.blockHash !== undefined) return null
+
+  const from = parseBlockNumber(filter.fromBlock)
+  const to = parseBlockNumber(filter.toBlock)
+  if (from === null || to === null || from > to) return null
+
+  return { from, to }
+}
+
+/**
+ * Split a range at multiples of `size`. Only the first and last chunk may be partial.
+ */
+export function splitLogsRange(range: BlockRange, size = LOGS_CHUNK_SIZE): BlockRange[] {
+  const chunks: BlockRange[] = []
+
+  for (let from = range.from; from <= range.to; ) {
+    const to = Math.min(range.to, (Math.floor(from / size) + 1) * size - 1)
+    chunks.push({ from, to })
+    from = to + 1
+  }
+
+  return chunks
+}
+
+/**
+ * The filter for part of a range. Keys are in a fixed order, so every query over the same
+ * chunk gets the same cache key.
+ */
+export function getRangeFilter(filter: LogsFilter, range: BlockRange): LogsFilter {
+  return {
+    address: filter.address,
+    fromBlock: toHex(range.from),
+    toBlock: toHex(range.to),
+    topics: filter.topics
+  }
+}
+
+/**
+ * Concatenate pieces in block order, keeping only those within `range`
+ */
+export function mergeLogs(pieces: LogsPiece[], range: BlockRange): unknown[] {
+  return pieces
+    .filter((piece) => piece.from >= range.from && piece.from <= range.to)
+    .sort((a, b) => a.from - b.from)
+    .flatMap((piece) => piece.logs)
+}
+
+function toHex(block: number): string {
+  return `0x${block.toString(16)}`
+}
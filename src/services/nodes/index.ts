@@ -0,0 +1,11 @@
+export {
+  getNodeChecks,
+  getNodeRecords,
+  NODE_CHECK_RETENTION_S,
+  type NodeCheck,
+  type NodeCheckRecord,
+  type NodeRecord,
+  pruneNodeChecks,
+  recordNodeChecks,
+  setMevNodes
+} from './nodes'
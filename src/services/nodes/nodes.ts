@@ -0,0 +1,182 @@
+/**
+ * Node Records
+ *
+ * Every upstream the sync has seen for a chain, in the nodes table, with the outcome of each
+ * validation in node_checks. Unlike the node lists in the chains table, which every completed
+ * pass replaces, rows here persist: when a node first appeared, when it last passed, how many
+ * checks it has failed since, and its recent latency. Checks older than NODE_CHECK_RETENTION_S
+ * are pruned by the sync.
+ */
+
+import type { NodeCapabilities } from '../capabilities'
+
+// How long validation history is kept
+export const NODE_CHECK_RETENTION_S = 7 * 24 * 60 * 60
+
+/**
+ * The outcome of validating one node
+ */
+export interface NodeCheck {
+  url: string
+  ok: boolean
+  archive: boolean
+  ws: boolean
+  // Probed on success, null when the node failed or is not probed (WebSocket)
+  capabilities: NodeCapabilities | null
+}
+
+export interface NodeRecord {
+  id: number
+  url: string
+  archive: boolean
+  mev: boolean
+  ws: boolean
+  capabilities: NodeCapabilities | null
+  firstSeen: number
+  lastChecked: number | null
+  lastOk: number | null
+  consecutiveFailures: number
+  latencyMs: number | null
+}
+
+export interface NodeCheckRecord {
+  nodeId: number
+  checkedAt: number
+  ok: boolean
+  latencyMs: number | null
+}
+
+interface NodeRow {
+  id: number
+  url: string
+  archive: number
+  mev: number
+  ws: number
+  capabilities: string | null
+  first_seen: number
+  last_checked: number | null
+  last_ok: number | null
+  consecutive_failures: number
+  latency_ms: number | null
+}
+
+interface NodeCheckRow {
+  node_id: number
+  checked_at: number
+  ok: number
+  latency_ms: number | null
+}
+
+/**
+ * Record a round of checks for a chain: update each node and append to its history.
+ * A failed check keeps what was last known about the node (archive, capabilities, latency).
+ */
+export async function recordNodeChecks(db: D1Database, chain: string, checks: NodeCheck[]): Promise<void> {
+  if (checks.length === 0) return
+
+  const statements = checks.flatMap((check) => {
+    const latencyMs = check.capabilities?.latencyMs ?? null
+
+    return [
+      db
+        .prepare(
+          `INSERT INTO nodes (chain, url, archive, ws, capabilities, last_checked, last_ok, consecutive_failures, latency_ms)
+           VALUES (?, ?, ?, ?, ?, unixepoch(), CASE WHEN ? = 1 THEN unixepoch() END, CASE WHEN ? = 1 THEN 0 ELSE 1 END, ?)
+           ON CONFLICT(chain, url) DO UPDATE SET
+             archive = CASE WHEN excluded.last_ok IS NULL THEN nodes.archive ELSE excluded.archive END,
+             ws = excluded.ws,
+             capabilities = COALESCE(excluded.capabilities, nodes.capabilities),
+             last_checked = excluded.last_checked,
+             last_ok = COALESCE(excluded.last_ok, nodes.last_ok),
+             consecutive_failures = CASE WHEN excluded.last_ok IS NULL THEN nodes.consecutive_failures + 1 ELSE 0 END,
+             latency_ms = COALESCE(excluded.latency_ms, nodes.latency_ms)`
+        )
+        .bind(
+          chain,
+          check.url,
+          Number(check.archive),
+          Number(check.ws),
+          check.capabilities ? JSON.stringify(check.capabilities) : null,
+          Number(check.ok),
+          Number(check.ok),
+          latencyMs
+        ),
+      db
+        .prepare(
+          `INSERT INTO node_checks (node_id, ok, archive, latency_ms)
+           SELECT id, ?, ?, ? FROM nodes WHERE chain = ? AND url = ?`
+        )
+        .bind(Number(check.ok), Number(check.archive), latencyMs, chain, check.url)
+    ]
+  })
+
+  await db.batch(statements)
+}
+
+/**
+ * Mark the chain's MEV upstreams, which are configured rather than validated
+ */
+export async function setMevNodes(db: D1Database, chain: string, urls: string[]): Promise<void> {
+  const list = JSON.stringify(urls)
+
+  await db.batch([
+    db.prepare('INSERT OR IGNORE INTO nodes (chain, url, mev) SELECT ?, value, 1 FROM json_each(?)').bind(chain, list),
+    db.prepare('UPDATE nodes SET mev = url IN (SELECT value FROM json_each(?)) WHERE chain = ?').bind(list, chain)
+  ])
+}
+
+/**
+ * Drop validation history older than NODE_CHECK_RETENTION_S
+ */
+export async function pruneNodeChecks(db: D1Database): Promise<void> {
+  await db.prepare('DELETE FROM node_checks WHERE checked_at < unixepoch() - ?').bind(NODE_CHECK_RETENTION_S).run()
+}
+
+/**
+ * Every node of a chain, in the order they were first seen
+ */
+export async function getNodeRecords(db: D1Database, chain: string): Promise<NodeRecord[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT id, url, archive, mev, ws, capabilities, first_seen, last_checked, last_ok, consecutive_failures, latency_ms
+       FROM nodes WHERE chain = ? ORDER BY first_seen, id`
+    )
+    .bind(chain)
+    .all<NodeRow>()
+
+  return results.map((row) => ({
+    archive: row.archive === 1,
+    capabilities: row.capabilities ? JSON.parse(row.capabilities) : null,
+    consecutiveFailures: row.consecutive_failures,
+    firstSeen: row.first_seen,
+    id: row.id,
+    lastChecked: row.last_checked,
+    lastOk: row.last_ok,
+    latencyMs: row.latency_ms,
+    mev: row.mev === 1,
+    url: row.url,
+    ws: row.ws === 1
+  }))
+}
+
+/**
+ * Checks of a chain's nodes since `since` (unix seconds), oldest first
+ */
+export async function getNodeChecks(db: D1Database, chain: string, since: number): Promise<NodeCheckRecord[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT k.node_id, k.checked_at, k.ok, k.latency_ms
+       FROM node_checks k JOIN nodes n ON n.id = k.node_id
+       WHERE n.chain = ? AND k.checked_at >= ?
+       ORDER BY k.checked_at`
+    )
+    .bind(chain, since)
+    .all<NodeCheckRow>()
+
+  return results.map((row) => ({
+    checkedAt: row.checked_at,
+    latencyMs: row.latency_ms,
+    nodeId: row.node_id,
+    ok: row.ok === 1
+  }))
+}
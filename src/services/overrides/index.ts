@@ -0,0 +1,9 @@
+export {
+  getManualNodes,
+  getNodeOverrides,
+  NODE_ACTIONS,
+  type NodeAction,
+  type NodeOverrides,
+  setNodeOverride,
+  withoutBanned
+} from './overrides'
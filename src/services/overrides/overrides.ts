@@ -0,0 +1,90 @@
+/**
+ * Node Overrides
+ *
+ * Operator decisions about single upstreams, set through the admin API and kept in the
+ * node_overrides table. They apply on top of whatever the node sync finds:
+ * - banned: Never routed to, on any node list
+ * - pinned: Preferred over the other nodes while its circuit is closed
+ * - manual: Served without validation, e.g. a private upstream. ws:// and wss:// URLs are served as
+ *   WebSocket nodes, anything else as a standard node.
+ */
+
+export type NodeAction = 'ban' | 'unban' | 'pin' | 'unpin' | 'add' | 'remove'
+
+export const NODE_ACTIONS: NodeAction[] = ['ban', 'unban', 'pin', 'unpin', 'add', 'remove']
+
+export interface NodeOverrides {
+  banned: Set<string>
+  pinned: Set<string>
+  manual: string[]
+}
+
+interface NodeOverrideRow {
+  url: string
+  banned: number
+  pinned: number
+  manual: number
+}
+
+/**
+ * Overrides for one chain
+ */
+export async function getNodeOverrides(db: D1Database, chain: string): Promise<NodeOverrides> {
+  const { results } = await db
+    .prepare('SELECT url, banned, pinned, manual FROM node_overrides WHERE chain = ?')
+    .bind(chain)
+    .all<NodeOverrideRow>()
+
+  return {
+    banned: new Set(results.filter((row) => row.banned === 1).map((row) => row.url)),
+    manual: results.filter((row) => row.manual === 1).map((row) => row.url),
+    pinned: new Set(results.filter((row) => row.pinned === 1).map((row) => row.url))
+  }
+}
+
+/**
+ * Apply an admin action to a node of a chain
+ */
+export async function setNodeOverride(db: D1Database, chain: string, url: string, action: NodeAction): Promise<void> {
+  const [column, value] = getOverrideColumn(action)
+
+  // The column name comes from the fixed set above, never from the caller
+  await db
+    .prepare(
+      `INSERT INTO node_overrides (chain, url, ${column}) VALUES (?, ?, ?)
+       ON CONFLICT(chain, url) DO UPDATE SET ${column} = excluded.${column}, updated_at = unixepoch()`
+    )
+    .bind(chain, url, value)
+    .run()
+}
+
+/**
+ * Manual upstreams of one kind: WebSocket nodes, or standard nodes
+ */
+export function getManualNodes(overrides: NodeOverrides, websocket: boolean): string[] {
+  return overrides.manual.filter((url) => /^wss?:/i.test(url) === websocket)
+}
+
+/**
+ * Drop banned nodes from a node list
+ */
+export function withoutBanned(urls: string[], overrides: NodeOverrides): string[] {
+  return urls.filter((url) => !overrides.banned.has(url))
+}
+
+function getOverrideColumn(action: NodeAction): ['banned' | 'pinned' | 'manual', number] {
+  switch (action) {
+    case 'ban':
+      return ['banned', 1]
+    case 'unban':
+      return ['banned', 0]
+    case 'pin':
+      return ['pinned', 1]
+    case 'unpin':
+      return ['pinned', 0]
+    case 'add':
+      return ['manual', 1]
+    default:
+      return ['manual', 0]
+  }
+}
@@ -0,0 +1 @@
+export { type ChainFamily, checkMethodPolicy, type MethodDenial, type MethodOverrides } from './policy'
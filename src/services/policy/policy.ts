@@ -0,0 +1,89 @@
+/**
+ * Method Policy
+ *
+ * Decides which methods may reach upstream nodes, before any routing happens:
+ * - DENYLIST: Wallet, signing and node administration methods. On a misconfigured public node
+ *   these can do harm or leak information, so they are always rejected (-32006)
+ * - ALLOWLIST: The methods a chain family actually serves. Anything else would only waste an
+ *   upstream round trip, so it is rejected as unknown (-32601)
+ *
+ * Per-chain overrides (chains.settings.methods) can allow or deny more methods, but never
+ * lift the denylist.
+ *
+ * Entries are exact method names, or namespace prefixes ending in `*` (e.g. `trace_*`).
+ */
+
+export type ChainFamily = 'evm' | 'opStack' | 'arbitrum' | 'polygon'
+
+export interface MethodOverrides {
+  allow?: string[]
+  deny?: string[]
+}
+
+export type MethodDenial = 'denied' | 'unsupported'
+
+const DENYLIST = [
+  'eth_accounts',
+  'eth_coinbase',
+  'eth_sendTransaction',
+  'eth_sign',
+  'eth_signTransaction',
+  'eth_signTypedData*',
+  'personal_*',
+  'admin_*',
+  'miner_*',
+  'engine_*',
+  'clique_*',
+  'debug_setHead',
+  'debug_chaindbCompact',
+  'debug_chaindbProperty',
+  'debug_freeOSMemory',
+  'debug_setGCPercent',
+  'debug_startCPUProfile',
+  'debug_stopCPUProfile',
+  'debug_writeBlockProfile',
+  'debug_writeMemProfile'
+]
+
+const EVM_ALLOWLIST = [
+  'eth_*',
+  'net_version',
+  'net_listening',
+  'net_peerCount',
+  'web3_clientVersion',
+  'web3_sha3',
+  'debug_trace*',
+  'debug_getBadBlocks',
+  'debug_getRaw*',
+  'trace_*',
+  'txpool_*'
+]
+
+const FAMILY_ALLOWLISTS: Record<ChainFamily, string[]> = {
+  arbitrum: [...EVM_ALLOWLIST, 'arbtrace_*'],
+  evm: EVM_ALLOWLIST,
+  opStack: [...EVM_ALLOWLIST, 'optimism_*', 'rollup_*'],
+  polygon: [...EVM_ALLOWLIST, 'bor_*']
+}
+
+/**
+ * Check a method against the chain's policy. Returns why it is rejected, or null if it may go upstream.
+ */
+export function checkMethodPolicy(
+  method: string,
+  family: ChainFamily,
+  overrides: MethodOverrides | null = null
+): MethodDenial | null {
+  if (matchesAny(method, DENYLIST) || matchesAny(method, overrides?.deny ?? [])) return 'denied'
+
+  const allowlist = FAMILY_ALLOWLISTS[family] ?? EVM_ALLOWLIST
+  if (matchesAny(method, allowlist) || matchesAny(method, overrides?.allow ?? [])) return null
+
+  return 'unsupported'
+}
+
+function matchesAny(method: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith('*') ? method.startsWith(pattern.slice(0, -1)) : method === pattern
+  )
+}
@@ -0,0 +1,8 @@
+export {
+  getEffectivePrivacyPolicy,
+  type NodePrivacy,
+  type PrivacyPolicy,
+  parseTrackingLevel,
+  type TrackingLevel,
+  withPrivacyPolicy
+} from './privacy'
@@ -0,0 +1,84 @@
+/**
+ * Node Privacy
+ *
+ * Chainlist declares, per RPC, whether the provider tracks users and whether the node is open
+ * source. The node sync stores both per node as its privacy class, and a chain's privacy policy
+ * decides which nodes are routed to:
+ * - none: Only providers that declare no tracking
+ * - limited: Also those that declare limited tracking or declare nothing (the default)
+ * - any: Also those that declare they track
+ *
+ * A chain with fewer than `privacyMinNodes` standard nodes under its policy relaxes it a step
+ * at a time until it has enough. Nodes without a class (static, MEV and manual upstreams) were
+ * chosen by an operator and are never filtered.
+ */
+
+export type TrackingLevel = 'none' | 'limited' | 'yes' | 'unspecified'
+
+export type PrivacyPolicy = 'none' | 'limited' | 'any'
+
+export interface NodePrivacy {
+  tracking: TrackingLevel
+  openSource: boolean
+}
+
+// From strictest to most relaxed
+const POLICY_ORDER: PrivacyPolicy[] = ['none', 'limited', 'any']
+
+/**
+ * Tracking level from chainlist's `tracking` field
+ */
+export function parseTrackingLevel(value: unknown): TrackingLevel {
+  switch (value) {
+    case 'none':
+      return 'none'
+    case 'limited':
+      return 'limited'
+    case 'yes':
+      return 'yes'
+    default:
+      return 'unspecified'
+  }
+}
+
+/**
+ * The strictest policy, starting from `policy`, that leaves at least `minNodes` of `nodes`
+ */
+export function getEffectivePrivacyPolicy(
+  nodes: string[],
+  privacy: Record<string, NodePrivacy>,
+  policy: PrivacyPolicy,
+  minNodes: number
+): PrivacyPolicy {
+  const start = Math.max(0, POLICY_ORDER.indexOf(policy))
+
+  for (const candidate of POLICY_ORDER.slice(start)) {
+    if (withPrivacyPolicy(nodes, privacy, candidate).length >= minNodes) return candidate
+  }
+
+  return 'any'
+}
+
+/**
+ * Drop the nodes a policy does not allow
+ */
+export function withPrivacyPolicy(
+  urls: string[],
+  privacy: Record<string, NodePrivacy>,
+  policy: PrivacyPolicy
+): string[] {
+  return urls.filter((url) => isAllowed(privacy[url], policy))
+}
+
+function isAllowed(node: NodePrivacy | undefined, policy: PrivacyPolicy): boolean {
+  if (!node) return true
+
+  switch (policy) {
+    case 'none':
+      return node.tracking === 'none'
+    case 'limited':
+      return node.tracking !== 'yes'
+    default:
+      return true
+  }
+}
@@ -0,0 +1 @@
+export { type ChainRegistryEntry, findChain, getChainRegistry, resolveChainSlug } from './registry'
@@ -0,0 +1,96 @@
+/**
+ * Chain Registry
+ *
+ * The chains NullRPC serves, kept in the chain_registry table: chain id, display name and
+ * icon, alternate paths (aliases), method policy family, and upstreams that are not on
+ * chainlist (static and MEV nodes). The cron syncs every enabled chain, and the chain list,
+ * chain pages and router read from here, so adding a chain is a data change only.
+ *
+ * The registry is small and changes rarely, so it is cached whole per isolate.
+ */
+
+import type { ChainFamily } from '../policy'
+
+// How long an isolate trusts the registry it loaded
+const REGISTRY_CACHE_TTL_MS = 60_000
+
+export interface ChainRegistryEntry {
+  slug: string
+  chainId: number
+  name: string
+  icon: string | null
+  aliases: string[]
+  family: ChainFamily
+  enabled: boolean
+  testnet: boolean
+  // Upstreams validated along with those from chainlist
+  staticNodes: string[]
+  mevNodes: string[]
+}
+
+interface ChainRegistryRow {
+  slug: string
+  chainId: number
+  name: string
+  icon: string | null
+  aliases: string | null
+  family: string | null
+  enabled: number
+  testnet: number
+  static_nodes: string | null
+  mev_nodes: string | null
+}
+
+let registryCache: { entries: ChainRegistryEntry[]; expiresAt: number } | null = null
+
+/**
+ * Every registered chain, enabled or not, ordered by chain id
+ */
+export async function getChainRegistry(env: Env): Promise<ChainRegistryEntry[]> {
+  if (registryCache && registryCache.expiresAt > Date.now()) return registryCache.entries
+
+  const { results } = await env.DB.prepare(
+    'SELECT slug, chainId, name, icon, aliases, family, enabled, testnet, static_nodes, mev_nodes FROM chain_registry ORDER BY chainId'
+  ).all<ChainRegistryRow>()
+
+  const entries = results.map(parseRegistryRow)
+  registryCache = { entries, expiresAt: Date.now() + REGISTRY_CACHE_TTL_MS }
+
+  return entries
+}
+
+/**
+ * The registry entry for an enabled chain, by slug or alias
+ */
+export async function findChain(env: Env, chain: string): Promise<ChainRegistryEntry | null> {
+  const entries = await getChainRegistry(env)
+  return entries.find((entry) => entry.enabled && (entry.slug === chain || entry.aliases.includes(chain))) ?? null
+}
+
+/**
+ * The slug a chain is served under: aliases resolve to their chain's slug, anything else
+ * is returned as is. A registry that cannot be read leaves the path alone.
+ */
+export async function resolveChainSlug(env: Env, chain: string): Promise<string> {
+  try {
+    return (await findChain(env, chain))?.slug ?? chain
+  } catch (e) {
+    console.error('Failed to read chain registry', e)
+    return chain
+  }
+}
+
+function parseRegistryRow(row: ChainRegistryRow): ChainRegistryEntry {
+  return {
+    aliases: row.aliases ? JSON.parse(row.aliases) : [],
+    chainId: row.chainId,
+    enabled: row.enabled === 1,
+    family: (row.family as ChainFamily | null) ?? 'evm',
+    icon: row.icon,
+    mevNodes: row.mev_nodes ? JSON.parse(row.mev_nodes) : [],
+    name: row.name,
+    slug: row.slug,
+    staticNodes: row.static_nodes ? JSON.parse(row.static_nodes) : [],
+    testnet: row.testnet === 1
+  }
+}
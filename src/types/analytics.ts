@@ -29,4 +29,10 @@ export interface AnalyticsData {
 
   // Error tracking (generic types only, no user context)
   errorType?: string
+
+  // Extra upstream requests sent by hedging
+  hedges?: number
+
+  // Row id of the API key used, never the key itself
+  apiKeyId?: number
 }
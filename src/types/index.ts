@@ -1 +1,2 @@
 export type { AnalyticsData, PublicStats } from './analytics'
+export type { JsonRpcRequest, JsonRpcResponse } from './rpc'
@@ -0,0 +1,19 @@
+/**
+ * JSON-RPC 2.0 request as accepted from clients
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0'
+  id?: unknown
+  method: string
+  params?: unknown[]
+}
+
+/**
+ * JSON-RPC 2.0 response as returned by upstream nodes
+ */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0'
+  id: unknown
+  result?: unknown
+  error?: { code: number; message: string; data?: unknown }
+}
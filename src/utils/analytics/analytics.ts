@@ -10,8 +10,8 @@
  * - Any personally identifiable information
  *
  * Data Structure:
- * - Blobs (strings): chain, method, cacheStatus, statusCode, errorType
- * - Doubles (numbers): latencyMs, requestCount, requestSize, responseSize, cacheHit
+ * - Blobs (strings): chain, method, cacheStatus, statusCode, errorType, apiKeyId
+ * - Doubles (numbers): latencyMs, requestCount, requestSize, responseSize, cacheHit, hedges
  * - Indexes (string): dataset identifier for querying
  */
 
@@ -42,7 +42,8 @@ export function trackRequest(env: Env, ctx: ExecutionContext, data: AnalyticsDat
             data.method || 'unknown', // blob2: RPC method name
             data.cacheStatus, // blob3: Cache status
             String(data.statusCode), // blob4: HTTP status code
-            data.errorType || '' // blob5: Error type if any
+            data.errorType || '', // blob5: Error type if any
+            data.apiKeyId === undefined ? '' : String(data.apiKeyId) // blob6: API key row id, empty for public access
           ],
           doubles: [
             1, // double1: Request count (always 1, for summing)
@@ -51,7 +52,8 @@ export function trackRequest(env: Env, ctx: ExecutionContext, data: AnalyticsDat
             data.responseSize || 0, // double4: Response body size in bytes
             data.cacheStatus === 'HIT' ? 1 : 0, // double5: Cache hit (1) or miss (0)
             data.statusCode >= 400 ? 1 : 0, // double6: Error count (4xx/5xx)
-            data.statusCode === 429 ? 1 : 0 // double7: Rate limited count
+            data.statusCode === 429 ? 1 : 0, // double7: Rate limited count
+            data.hedges || 0 // double8: Hedged upstream requests
           ],
           indexes: ['rpc_requests'] // Dataset identifier
         })
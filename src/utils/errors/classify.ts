@@ -0,0 +1,75 @@
+/**
+ * Upstream Error Classification
+ *
+ * Public nodes often answer HTTP 200 with a JSON-RPC error. The class decides what ChainDO does:
+ * - TRANSIENT: The node could not serve the request right now, another node may (rate limits,
+ *   timeouts, pruned state, node-specific range limits or disabled methods)
+ * - DETERMINISTIC: Every node would give the same answer (reverts, invalid params), so the
+ *   error goes straight back to the client
+ *
+ * Unrecognized errors are treated as deterministic, so a request is never retried blindly.
+ */
+
+// Response header through which ChainDO reports the class of an upstream error, read by analytics
+export const ERROR_CLASS_HEADER = 'X-NullRPC-Error'
+
+export type UpstreamErrorClass =
+  | 'rate_limited'
+  | 'timeout'
+  | 'missing_state'
+  | 'range_limit'
+  | 'unsupported'
+  | 'reverted'
+  | 'invalid_params'
+  | 'rpc_error'
+
+const TRANSIENT_CLASSES = new Set<string>(['rate_limited', 'timeout', 'missing_state', 'range_limit', 'unsupported'])
+
+// Checked in order, the first match wins
+const MESSAGE_PATTERNS: [RegExp, UpstreamErrorClass][] = [
+  [/execution reverted|revert|out of gas|invalid opcode|insufficient funds/i, 'reverted'],
+  [/rate.?limit|too many requests|429|capacity exceeded|quota|credits/i, 'rate_limited'],
+  [/time.?out|timed out|deadline exceeded/i, 'timeout'],
+  [
+    /missing trie node|pruned|historical state|state.*not available|not an archive|header not found|unknown block|block not found/i,
+    'missing_state'
+  ],
+  [
+    /block range|range (is )?too (large|wide)|more than \d+ (results|logs|blocks)|response size|limit exceeded/i,
+    'range_limit'
+  ],
+  [/method not (found|supported|available)|does not exist|not whitelisted|disabled/i, 'unsupported'],
+  [/invalid (argument|param)|cannot unmarshal|hex string|missing value/i, 'invalid_params']
+]
+
+/**
+ * Classify a JSON-RPC error object returned by an upstream node
+ */
+export function classifyRpcError(error: { code?: unknown; message?: unknown }): UpstreamErrorClass {
+  const message = typeof error.message === 'string' ? error.message : ''
+
+  for (const [pattern, errorClass] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) return errorClass
+  }
+
+  switch (error.code) {
+    case 3:
+      return 'reverted'
+    case -32005:
+      return 'rate_limited'
+    case -32601:
+    case -32004:
+      return 'unsupported'
+    case -32602:
+      return 'invalid_params'
+    default:
+      return 'rpc_error'
+  }
+}
+
+/**
+ * Whether another node may succeed where this one returned an error of the given class
+ */
+export function isTransientError(errorClass: string | null): boolean {
+  return errorClass !== null && TRANSIENT_CLASSES.has(errorClass)
+}
@@ -0,0 +1,72 @@
+import { createRpcError } from '../rpc'
+
+/**
+ * JSON-RPC error codes, from the spec and EIP-1474.
+ * methodNotAllowed marks methods refused by the method policy, not unknown ones.
+ */
+export const RpcErrorCode = {
+  internalError: -32603,
+  invalidParams: -32602,
+  invalidRequest: -32600,
+  limitExceeded: -32005,
+  methodNotAllowed: -32006,
+  methodNotFound: -32601,
+  methodNotSupported: -32004,
+  parseError: -32700,
+  resourceNotFound: -32001,
+  resourceUnavailable: -32002,
+  serverError: -32000
+} as const
+
+export interface RpcErrorOptions {
+  // HTTP status of the reply (default: 200)
+  status?: number
+  // Extra detail for the error object's `data` field
+  data?: unknown
+  // Seconds until the client may retry, sent as Retry-After and in `data`
+  retryAfter?: number
+}
+
+/**
+ * Creates a JSON-RPC error reply for a request rejected as a whole.
+ * The caller's id is repeated, and a batch gets one error per item with each item's id.
+ * @param request - The rejected request, read for its ids (null when it has no usable body)
+ * @param code - JSON-RPC error code, see RpcErrorCode
+ * @param message - Short description of the error
+ * @param options - HTTP status, error data and Retry-After
+ */
+export async function createRpcErrorResponse(
+  request: Request | null,
+  code: number,
+  message: string,
+  options: RpcErrorOptions = {}
+): Promise<Response> {
+  const { status = 200, retryAfter } = options
+  const data = retryAfter === undefined ? options.data : { retryAfter, ...(options.data as object) }
+
+  const ids = request ? await readRequestIds(request) : null
+  const body = Array.isArray(ids)
+    ? ids.map((id) => createRpcError(id, code, message, data))
+    : createRpcError(ids, code, message, data)
+
+  const headers = new Headers({ 'Content-Type': 'application/json' })
+  if (retryAfter !== undefined) headers.set('Retry-After', String(retryAfter))
+
+  return new Response(JSON.stringify(body), { headers, status })
+}
+
+/**
+ * Read the id of a request, or the ids of a batch, without consuming the request
+ */
+async function readRequestIds(request: Request): Promise<unknown> {
+  try {
+    const parsed = JSON.parse(await request.clone().text())
+    // An empty batch is answered with a single error, per the spec
+    if (Array.isArray(parsed)) {
+      return parsed.length > 0 ? parsed.map((item) => (item as { id?: unknown } | null)?.id ?? null) : null
+    }
+    return parsed?.id ?? null
+  } catch (_) {
+    return null
+  }
+}
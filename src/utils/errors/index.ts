@@ -0,0 +1,7 @@
+export {
+  classifyRpcError,
+  ERROR_CLASS_HEADER,
+  isTransientError,
+  type UpstreamErrorClass
+} from './classify'
+export { createRpcErrorResponse, RpcErrorCode, type RpcErrorOptions } from './errors'
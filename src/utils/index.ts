@@ -1,2 +1,12 @@
 export { getContentLength, trackRequest } from './analytics'
+export {
+  classifyRpcError,
+  createRpcErrorResponse,
+  ERROR_CLASS_HEADER,
+  isTransientError,
+  RpcErrorCode,
+  type RpcErrorOptions,
+  type UpstreamErrorClass
+} from './errors'
 export { createJsonResponse, createRawJsonResponse } from './response'
+export { createRpcError, isJsonRpcRequest, isReadOnlyMethod, QUORUM_HEADER } from './rpc'
@@ -0,0 +1 @@
+export { createRpcError, isJsonRpcRequest, isReadOnlyMethod, QUORUM_HEADER } from './rpc'
@@ -0,0 +1,98 @@
+import type { JsonRpcRequest, JsonRpcResponse } from '@/types'
+
+// Request header selecting quorum mode, set by the router for /:chain/quorum
+export const QUORUM_HEADER = 'x-nullrpc-quorum'
+
+// Methods without side effects on the node or the network. Anything not listed, including
+// sends under other names (eth_sendBundle, eth_sendUserOperation, ...), is treated as a write.
+const READ_METHODS = new Set([
+  // Chain and client
+  'eth_chainId',
+  'net_version',
+  'net_listening',
+  'net_peerCount',
+  'web3_clientVersion',
+  'web3_sha3',
+  'eth_protocolVersion',
+  'eth_syncing',
+  'eth_mining',
+  'eth_hashrate',
+  // Blocks
+  'eth_blockNumber',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getBlockReceipts',
+  'eth_getBlockTransactionCountByHash',
+  'eth_getBlockTransactionCountByNumber',
+  'eth_getUncleCountByBlockHash',
+  'eth_getUncleCountByBlockNumber',
+  'eth_getUncleByBlockHashAndIndex',
+  'eth_getUncleByBlockNumberAndIndex',
+  // Transactions
+  'eth_getTransactionByHash',
+  'eth_getRawTransactionByHash',
+  'eth_getTransactionReceipt',
+  'eth_getTransactionByBlockHashAndIndex',
+  'eth_getTransactionByBlockNumberAndIndex',
+  'eth_getTransactionCount',
+  // State
+  'eth_getBalance',
+  'eth_getCode',
+  'eth_getStorageAt',
+  'eth_getProof',
+  'eth_call',
+  'eth_estimateGas',
+  'eth_createAccessList',
+  'eth_simulateV1',
+  'eth_callMany',
+  'eth_getLogs',
+  // Fees
+  'eth_gasPrice',
+  'eth_maxPriorityFeePerGas',
+  'eth_feeHistory',
+  'eth_blobBaseFee',
+  // Txpool
+  'txpool_status',
+  'txpool_content',
+  'txpool_inspect',
+  'txpool_contentFrom',
+  // Traces
+  'debug_traceTransaction',
+  'debug_traceBlockByHash',
+  'debug_traceBlockByNumber',
+  'debug_traceCall',
+  'debug_getBadBlocks',
+  'trace_block',
+  'trace_transaction',
+  'trace_call',
+  'trace_filter',
+  'trace_replayTransaction',
+  'trace_replayBlockTransactions'
+])
+
+/**
+ * Check that a parsed payload is a well-formed JSON-RPC 2.0 request
+ */
+export function isJsonRpcRequest(payload: unknown): payload is JsonRpcRequest {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    (payload as { jsonrpc?: unknown }).jsonrpc === '2.0' &&
+    typeof (payload as { method?: unknown }).method === 'string'
+  )
+}
+
+/**
+ * Build a JSON-RPC error object for a single request
+ */
+export function createRpcError(id: unknown, code: number, message: string, data?: unknown): JsonRpcResponse {
+  const error = data === undefined ? { code, message } : { code, data, message }
+  return { error, id: id ?? null, jsonrpc: '2.0' }
+}
+
+/**
+ * Whether a method is free of side effects, so it is safe to send to more than one node
+ */
+export function isReadOnlyMethod(method: string): boolean {
+  return READ_METHODS.has(method)
+}
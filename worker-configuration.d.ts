@@ -4,13 +4,17 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
-		durableNamespaces: "ChainDO";
+		durableNamespaces: "ChainDO" | "LimiterDO";
 	}
 	interface Env {
 		CLOUDFLARE_ACCOUNT_ID: string;
 		CLOUDFLARE_API_TOKEN: string;
+		RATE_LIMIT_SECRET: string;
+		ADMIN_SECRET: string;
 		CHAIN_DO: DurableObjectNamespace<import("./src/index").ChainDO>;
+		LIMITER_DO: DurableObjectNamespace<import("./src/index").LimiterDO>;
 		DB: D1Database;
+		CACHE_KV?: KVNamespace;
 		ANALYTICS: AnalyticsEngineDataset;
 		RATE_LIMITER: RateLimit;
 	}